@@ -0,0 +1,248 @@
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger.js";
+import {
+  contextConfig,
+  getActingUser,
+  getCredentialId,
+  getErrorMessage,
+  getOpenProjectApi,
+  redact,
+  runInToolCallScope,
+  type ToolContext,
+} from "./helpers.js";
+import { FORBIDDEN_BY_POLICY } from "./policy.js";
+
+/**
+ * One audited tool call: who called which tool with what, what it changed in OpenProject and how it ended.
+ */
+export type AuditEntry = {
+  at: string;
+  tool: string;
+  /** Tool parameters with secrets redacted and long values (descriptions, uploads) truncated. */
+  params: unknown;
+  actor: {
+    credentialId: string | null;
+    user: { id: number | string | null; login: string | null; name: string | null } | null;
+    clientId: string | null;
+    sessionId: string | null;
+  };
+  /** Resource the call changed, e.g. "work_packages/12" (from its write requests, else its parameters). */
+  target: string | null;
+  /** "denied": rejected by policy before anything was sent to OpenProject. */
+  outcome: "success" | "error" | "denied" | "no-op";
+  /**
+   * HTTP status of the last write request to OpenProject, /form validations aside
+   * (null when none was sent or it failed without one).
+   */
+  status: number | null;
+  durationMs: number;
+  error?: string;
+  /** Write requests sent to OpenProject during the call. */
+  requests: Array<{ method: string; path: string; status: number | null }>;
+};
+
+export type AuditQuery = { from?: string; to?: string; tool?: string; resource?: string; credentialId?: string; limit?: number };
+
+/**
+ * Append-only JSONL audit log. When the file exceeds maxBytes it is rotated to `<file>.1`
+ * (older files shift to .2, .3, ...) and at most maxFiles rotated files are kept.
+ */
+export class AuditLog {
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(readonly file: string, private maxBytes = 10 * 1024 * 1024, private maxFiles = 5) {}
+
+  /** Append an entry; writes are serialized so rotation never interleaves with an append. */
+  append(entry: AuditEntry): Promise<void> {
+    this.queue = this.queue
+      .then(() => this.write(`${JSON.stringify(entry)}\n`))
+      .catch((err) => logger.error({ err: (err as Error).message, file: this.file }, "Failed to write audit entry"));
+    return this.queue;
+  }
+
+  private async write(line: string) {
+    await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+    const size = await fs.promises.stat(this.file).then((s) => s.size, () => 0);
+    if (size > 0 && size + Buffer.byteLength(line) > this.maxBytes) await this.rotate();
+    await fs.promises.appendFile(this.file, line, { mode: 0o600 });
+  }
+
+  private async rotate() {
+    await fs.promises.rm(`${this.file}.${this.maxFiles}`, { force: true });
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      await fs.promises.rename(`${this.file}.${i}`, `${this.file}.${i + 1}`).catch(() => undefined);
+    }
+    await fs.promises.rename(this.file, `${this.file}.1`);
+    logger.info({ file: this.file }, "Audit log rotated");
+  }
+
+  /**
+   * Entries matching the query, newest first. `resource` matches the target or any write path
+   * (e.g. "work_packages/12"); `tool` accepts a trailing "*" wildcard.
+   */
+  async query(q: AuditQuery = {}): Promise<AuditEntry[]> {
+    await this.queue;
+    const from = q.from ? Date.parse(q.from) : -Infinity;
+    const to = q.to ? Date.parse(q.to) : Infinity;
+    const limit = Math.min(Math.max(q.limit ?? 100, 1), 1000);
+    const resource = q.resource?.replace(/^\/+/, "");
+    const toolMatches = (tool: string) =>
+      !q.tool || (q.tool.endsWith("*") ? tool.startsWith(q.tool.slice(0, -1)) : tool === q.tool);
+    const matches = (e: AuditEntry) => {
+      const at = Date.parse(e.at);
+      if (at < from || at > to || !toolMatches(e.tool)) return false;
+      if (q.credentialId && e.actor?.credentialId !== q.credentialId) return false;
+      if (resource && e.target !== resource && !e.requests?.some((r) => r.path === resource || r.path.startsWith(`${resource}/`))) {
+        return false;
+      }
+      return true;
+    };
+
+    const results: AuditEntry[] = [];
+    // current file first, then rotated files from newest to oldest
+    for (let i = 0; i <= this.maxFiles && results.length < limit; i++) {
+      const file = i === 0 ? this.file : `${this.file}.${i}`;
+      if (!fs.existsSync(file)) continue;
+      const found: AuditEntry[] = [];
+      const lines = readline.createInterface({ input: fs.createReadStream(file, "utf8"), crlfDelay: Infinity });
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          const entry = JSON.parse(line) as AuditEntry;
+          if (matches(entry)) found.push(entry);
+        } catch {
+          // skip a torn line
+        }
+      }
+      results.push(...found.reverse().slice(0, limit - results.length));
+    }
+    return results;
+  }
+}
+
+let auditLog: AuditLog | null | undefined;
+
+/**
+ * The audit log configured by OPENPROJECT_AUDIT_LOG (default ./data/audit.jsonl; "none" disables
+ * auditing), OPENPROJECT_AUDIT_MAX_BYTES and OPENPROJECT_AUDIT_MAX_FILES.
+ */
+export function getAuditLog(): AuditLog | null {
+  if (auditLog !== undefined) return auditLog;
+  const file = process.env.OPENPROJECT_AUDIT_LOG || path.join(process.cwd(), "data", "audit.jsonl");
+  if (file === "none") {
+    auditLog = null;
+    return auditLog;
+  }
+  const maxBytes = parseInt(process.env.OPENPROJECT_AUDIT_MAX_BYTES || "", 10) || 10 * 1024 * 1024;
+  const maxFiles = parseInt(process.env.OPENPROJECT_AUDIT_MAX_FILES || "", 10) || 5;
+  auditLog = new AuditLog(file, maxBytes, maxFiles);
+  return auditLog;
+}
+
+/** API path of a request URL without origin and /api/vN prefix, e.g. "work_packages/12". */
+const apiPath = (url: string) =>
+  url.replace(/^https?:\/\/[^/]+/, "").replace(/^\/api\/v\d+/, "").split("?")[0].replace(/^\/+/, "");
+
+/**
+ * Run a mutating tool call and append its audit entry: the write requests it sent to OpenProject
+ * are collected through the request hooks, and calls rejected by policy are recorded as "denied".
+ */
+export async function auditToolCall(
+  name: string,
+  params: any,
+  context: Partial<ToolContext> | undefined,
+  call: () => Promise<CallToolResult>
+): Promise<CallToolResult> {
+  const requests: AuditEntry["requests"] = [];
+  const started = Date.now();
+  let result: CallToolResult | undefined;
+  try {
+    result = await runInToolCallScope(
+      { afterWrite: (method, url, status) => requests.push({ method: method.toUpperCase(), path: apiPath(url), status }) },
+      call
+    );
+    return result;
+  } finally {
+    await writeAuditEntry(name, params, context, result, requests, Date.now() - started);
+  }
+}
+
+/** Append the entry of a finished call (result undefined when it threw). Never throws. */
+async function writeAuditEntry(
+  tool: string,
+  params: any,
+  context: Partial<ToolContext> | undefined,
+  result: CallToolResult | undefined,
+  requests: AuditEntry["requests"],
+  durationMs: number
+) {
+  const log = getAuditLog();
+  if (!log) return;
+  try {
+    const first = result?.content?.[0];
+    const text = first?.type === "text" ? first.text : "";
+    const denied = text.startsWith(FORBIDDEN_BY_POLICY);
+    const error = !result ? "tool call failed" : result.isError || text.startsWith("ERROR:") ? text || "error" : undefined;
+    const api = getOpenProjectApi(contextConfig(context));
+    // /form requests only validate (e.g. validateOnly calls); they change nothing
+    const writes = requests.filter((r) => !/(^|\/)form$/.test(r.path));
+    const last = writes[writes.length - 1];
+    await log.append({
+      at: new Date().toISOString(),
+      tool,
+      params: compactParams(redact(params)),
+      actor: {
+        credentialId: api ? getCredentialId(api) : null,
+        user: api ? await getActingUser(api) : null,
+        clientId: context?.authInfo?.clientId ?? null,
+        sessionId: context?.sessionId ?? null,
+      },
+      target: auditTarget(params, requests),
+      outcome: denied ? "denied" : error ? "error" : writes.length ? "success" : "no-op",
+      status: last?.status ?? null,
+      durationMs,
+      ...(error ? { error: error.slice(0, 500) } : {}),
+      requests,
+    });
+  } catch (err) {
+    logger.error({ err: getErrorMessage(err), tool }, "Failed to record audit entry");
+  }
+}
+
+const MAX_PARAM_LENGTH = 500;
+
+/** Truncate long strings (descriptions, base64 uploads) so entries stay small. */
+export function compactParams(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.length > MAX_PARAM_LENGTH ? `${value.slice(0, MAX_PARAM_LENGTH)}… (${value.length} chars)` : value;
+  }
+  if (Array.isArray(value)) return value.map(compactParams);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, compactParams(v)]));
+  }
+  return value;
+}
+
+const PARAM_TARGETS: Array<[string, string]> = [
+  ["taskId", "work_packages"],
+  ["workPackageId", "work_packages"],
+  ["projectId", "projects"],
+  ["timeEntryId", "time_entries"],
+  ["versionId", "versions"],
+  ["relationId", "relations"],
+];
+
+/**
+ * Resource a call targets: the first write request's path, else the first ID-like parameter.
+ */
+export function auditTarget(params: any, requests: AuditEntry["requests"]): string | null {
+  const written = requests.find((r) => r.status === null || r.status < 400) ?? requests[0];
+  if (written) return written.path.replace(/\/form$/, "");
+  for (const [key, collection] of PARAM_TARGETS) {
+    if (params?.[key] != null && params[key] !== "") return `${collection}/${params[key]}`;
+  }
+  return null;
+}
@@ -0,0 +1,112 @@
+import express from "express";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { logger } from "./logger.js";
+import type { OpenProjectConfig } from "./helpers.js";
+import { accessTokenFor, type OAuthSettings } from "./oauth.js";
+import type { TokenStore } from "./tokenStore.js";
+
+/**
+ * Client id attached to AuthInfo built from per-request OpenProject credentials.
+ */
+export const OPENPROJECT_AUTH_CLIENT = "openproject";
+
+const normalizeUrl = (url: string) => url.trim().replace(/\/+$/, "").toLowerCase();
+
+/**
+ * OpenProject base URLs a client may target with its own credentials.
+ * Defaults to OPENPROJECT_URL so a shared deployment can't be pointed at arbitrary hosts;
+ * when neither OPENPROJECT_ALLOWED_URLS nor OPENPROJECT_URL is set, no URL is accepted
+ * (the server would otherwise send API keys to any host a client names).
+ */
+function allowedUrls(): string[] {
+  const configured = (process.env.OPENPROJECT_ALLOWED_URLS || "")
+    .split(",")
+    .map((u) => u.trim())
+    .filter(Boolean);
+  if (configured.length) return configured.map(normalizeUrl);
+  if (process.env.OPENPROJECT_URL) return [normalizeUrl(process.env.OPENPROJECT_URL)];
+  return [];
+}
+
+/**
+ * Extract per-request OpenProject credentials from headers:
+ * - `Authorization: Bearer <api key>` or `X-OpenProject-Api-Key: <api key>`
+ * - `X-OpenProject-URL` (optional, defaults to OPENPROJECT_URL)
+ * - `X-OpenProject-Api-Version` (optional)
+ * Returns null when the request carries no API key.
+ */
+export function credentialsFromRequest(req: express.Request): OpenProjectConfig | null {
+  const authorization = req.header("authorization") ?? "";
+  const bearer = /^Bearer\s+(.+)$/i.exec(authorization)?.[1]?.trim();
+  const apiKey = req.header("x-openproject-api-key") ?? bearer;
+  if (!apiKey) return null;
+  return {
+    OPENPROJECT_API_KEY: apiKey,
+    OPENPROJECT_URL: req.header("x-openproject-url") ?? process.env.OPENPROJECT_URL,
+    OPENPROJECT_API_VERSION: req.header("x-openproject-api-version") ?? process.env.OPENPROJECT_API_VERSION,
+  };
+}
+
+const attachAuth = (req: express.Request, token: string, credentials: OpenProjectConfig) => {
+  const auth: AuthInfo = {
+    token,
+    clientId: OPENPROJECT_AUTH_CLIENT,
+    scopes: [],
+    extra: { openproject: credentials },
+  };
+  (req as express.Request & { auth?: AuthInfo }).auth = auth;
+};
+
+/**
+ * Express middleware that attaches per-request OpenProject credentials as `req.auth`.
+ * The MCP transport forwards `req.auth` to tool handlers as `authInfo`, where
+ * withOpenProject turns it into `ToolContext.config`.
+ *
+ * Requests without credentials fall through to the process-wide configuration unless
+ * MCP_REQUIRE_CLIENT_AUTH=true, in which case they are rejected with 401.
+ *
+ * In OAuth mode the bearer token is the session key issued by /oauth/callback; it is
+ * exchanged for the stored (and refreshed) OpenProject access token, and API keys are not accepted.
+ */
+export function openProjectAuth(oauth?: { settings: OAuthSettings; store: TokenStore }) {
+  return async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (oauth) {
+      const sessionKey = /^Bearer\s+(.+)$/i.exec(req.header("authorization") ?? "")?.[1]?.trim();
+      const token = sessionKey ? await accessTokenFor(oauth.settings, oauth.store, sessionKey).catch(() => null) : null;
+      if (!sessionKey || !token) {
+        res.setHeader("WWW-Authenticate", 'Bearer realm="openproject", authorize_uri="/oauth/authorize"');
+        res.status(401).json({ ok: false, error: sessionKey ? "invalid_session" : "missing_credentials" });
+        return;
+      }
+      attachAuth(req, sessionKey, {
+        OPENPROJECT_ACCESS_TOKEN: token.accessToken,
+        OPENPROJECT_URL: token.openProjectUrl,
+        OPENPROJECT_API_VERSION: process.env.OPENPROJECT_API_VERSION,
+      });
+      return next();
+    }
+
+    const credentials = credentialsFromRequest(req);
+    if (!credentials) {
+      if (process.env.MCP_REQUIRE_CLIENT_AUTH === "true") {
+        res.status(401).json({ ok: false, error: "missing_credentials" });
+        return;
+      }
+      return next();
+    }
+
+    const allowed = allowedUrls();
+    if (!credentials.OPENPROJECT_URL) {
+      res.status(400).json({ ok: false, error: "missing_openproject_url" });
+      return;
+    }
+    if (!allowed.includes(normalizeUrl(credentials.OPENPROJECT_URL))) {
+      logger.warn("Rejected request targeting an OpenProject URL outside OPENPROJECT_ALLOWED_URLS");
+      res.status(403).json({ ok: false, error: "openproject_url_not_allowed" });
+      return;
+    }
+
+    attachAuth(req, credentials.OPENPROJECT_API_KEY as string, credentials);
+    next();
+  };
+}
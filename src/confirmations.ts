@@ -0,0 +1,237 @@
+import crypto from "crypto";
+import type { AxiosInstance } from "axios";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger.js";
+import { apiFilter, filtersParam, getCredentialId, getErrorMessage, idFromHref, type ApiFilter, type ToolContext } from "./helpers.js";
+
+/**
+ * What a destructive call would do: a one-line summary and the counts shown to the user.
+ */
+export type DeletionPreview = { summary: string; details: Record<string, unknown> };
+
+/** Destructive tools require confirmation unless OPENPROJECT_CONFIRM_DESTRUCTIVE=false. */
+export const confirmationRequired = () => process.env.OPENPROJECT_CONFIRM_DESTRUCTIVE !== "false";
+
+/** Bulk updates touching more items than this require confirmation (OPENPROJECT_BULK_CONFIRM_THRESHOLD). */
+export const bulkConfirmThreshold = () => {
+  const v = parseInt(process.env.OPENPROJECT_BULK_CONFIRM_THRESHOLD ?? "", 10);
+  return Number.isFinite(v) && v >= 0 ? v : 10;
+};
+
+const confirmTtlMs = () => (parseInt(process.env.OPENPROJECT_CONFIRM_TTL_SEC || "120", 10) || 120) * 1000;
+
+/**
+ * Issued confirmation tokens (in-process, single use). A token is bound to the credential, the
+ * tool and its exact target, so it cannot confirm a different call.
+ */
+const pending = new Map<string, { binding: string; expires: number }>();
+const PENDING_MAX = 1000;
+
+const bindingOf = (api: AxiosInstance, tool: string, target: unknown) =>
+  crypto
+    .createHash("sha256")
+    .update(`${getCredentialId(api) ?? ""}|${tool}|${JSON.stringify(target)}`)
+    .digest("hex");
+
+function issueToken(api: AxiosInstance, tool: string, target: unknown) {
+  const now = Date.now();
+  for (const [token, entry] of pending) if (entry.expires <= now) pending.delete(token);
+  while (pending.size >= PENDING_MAX) {
+    const oldest = pending.keys().next().value;
+    if (oldest === undefined) break;
+    pending.delete(oldest);
+  }
+  const token = crypto.randomBytes(18).toString("base64url");
+  const expires = now + confirmTtlMs();
+  pending.set(token, { binding: bindingOf(api, tool, target), expires });
+  return { token, expiresAt: new Date(expires).toISOString() };
+}
+
+function consumeToken(api: AxiosInstance, tool: string, target: unknown, token: string) {
+  const entry = pending.get(token);
+  if (!entry) return false;
+  pending.delete(token);
+  return entry.expires > Date.now() && entry.binding === bindingOf(api, tool, target);
+}
+
+/**
+ * Ask the user through MCP elicitation when the client declared support for it.
+ * Returns null when elicitation is unavailable (or fails), so the caller falls back to tokens.
+ */
+async function elicitConfirmation(server: Server, context: ToolContext | undefined, message: string) {
+  if (!server.getClientCapabilities()?.elicitation) return null;
+  try {
+    const result = await server.elicitInput(
+      {
+        message,
+        requestedSchema: {
+          type: "object",
+          properties: { confirm: { type: "boolean", title: "Confirm", description: "Proceed with this irreversible change" } },
+          required: ["confirm"],
+        },
+      },
+      // answer on the stream of the tool call (Streamable HTTP)
+      { relatedRequestId: context?.requestId, timeout: confirmTtlMs() }
+    );
+    return result.action === "accept" && result.content?.confirm === true;
+  } catch (err) {
+    logger.debug({ err: getErrorMessage(err) }, "Elicitation failed, falling back to confirmation token");
+    return null;
+  }
+}
+
+/**
+ * Two-phase confirmation for a destructive tool call. Returns null when the call may proceed
+ * (a valid token was passed or the user confirmed via elicitation); otherwise the result to return:
+ * the preview with a short-lived confirmation token, a cancellation, or an invalid-token error.
+ */
+export async function confirmDestructive(
+  server: Server,
+  api: AxiosInstance,
+  context: ToolContext | undefined,
+  options: { tool: string; target: unknown; token?: string; preview: () => Promise<DeletionPreview> }
+): Promise<CallToolResult | null> {
+  const { tool, target, token } = options;
+  if (token) {
+    if (consumeToken(api, tool, target, token)) return null;
+    return {
+      content: [
+        {
+          type: "text",
+          text: "ERROR: invalid or expired confirmation token; call again without confirmationToken for a new preview",
+        },
+      ],
+    };
+  }
+
+  const preview = await options.preview();
+  const confirmed = await elicitConfirmation(
+    server,
+    context,
+    `${preview.summary}. This cannot be undone.\n${Object.entries(preview.details)
+      .filter(([, v]) => v != null)
+      .map(([k, v]) => `${k}: ${typeof v === "object" ? JSON.stringify(v) : v}`)
+      .join("\n")}`
+  );
+  if (confirmed === true) return null;
+  if (confirmed === false) {
+    return { content: [{ type: "text", text: `Cancelled: ${preview.summary} was not confirmed.` }] };
+  }
+
+  const { token: confirmationToken, expiresAt } = issueToken(api, tool, target);
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Confirmation required: ${preview.summary}. Call ${tool} again with the same arguments and confirmationToken to proceed (expires ${expiresAt}).`,
+      },
+      { type: "text", text: JSON.stringify({ preview: preview.details, confirmationToken, expiresAt }) },
+    ],
+  };
+}
+
+/** Total of a collection (null when it cannot be read); explicit filters also include closed work packages. */
+async function countOf(api: AxiosInstance, path: string, filters: ApiFilter[]): Promise<number | null> {
+  try {
+    const r = await api.get(path, { params: { pageSize: 1, filters: filtersParam(filters) ?? "[]" } });
+    return typeof r.data?.total === "number" ? r.data.total : null;
+  } catch (err) {
+    logger.debug({ err: getErrorMessage(err), path }, "Deletion preview count unavailable");
+    return null;
+  }
+}
+
+/**
+ * What deleting a project removes: its work packages, time entries and subprojects.
+ * Throws (e.g. not found) when the project cannot be read.
+ */
+export async function previewProjectDeletion(api: AxiosInstance, projectId: string): Promise<DeletionPreview> {
+  const r = await api.get(`/projects/${projectId}`);
+  const id = String(r.data?.id ?? projectId);
+  const [workPackages, timeEntries, subprojects] = await Promise.all([
+    countOf(api, `/projects/${id}/work_packages`, []),
+    countOf(api, "/time_entries", [apiFilter("project", "=", [id])]),
+    countOf(api, "/projects", [apiFilter("parent_id", "=", [id])]),
+  ]);
+  return {
+    summary: `Delete project "${r.data?.name ?? projectId}" (ID ${id})`,
+    details: { id, identifier: r.data?.identifier ?? null, name: r.data?.name ?? null, workPackages, timeEntries, subprojects },
+  };
+}
+
+/**
+ * What deleting a work package removes: its child work packages, attachments and time entries.
+ * Throws (e.g. not found) when the work package cannot be read.
+ */
+export async function previewWorkPackageDeletion(api: AxiosInstance, taskId: string): Promise<DeletionPreview> {
+  const r = await api.get(`/work_packages/${taskId}`);
+  const id = String(r.data?.id ?? taskId);
+  const [children, attachments, timeEntries] = await Promise.all([
+    countOf(api, "/work_packages", [apiFilter("parent", "=", [id])]),
+    countOf(api, `/work_packages/${id}/attachments`, []),
+    countOf(api, "/time_entries", [apiFilter("work_package", "=", [id])]),
+  ]);
+  return {
+    summary: `Delete work package #${id} "${r.data?.subject ?? ""}"`,
+    details: {
+      id,
+      subject: r.data?.subject ?? null,
+      project: r.data?._links?.project?.title ?? idFromHref(r.data?._links?.project?.href),
+      children,
+      attachments,
+      timeEntries,
+    },
+  };
+}
+
+/**
+ * What deleting a time entry removes: its logged hours on the work package.
+ * Throws (e.g. not found) when the time entry cannot be read.
+ */
+export async function previewTimeEntryDeletion(api: AxiosInstance, timeEntryId: string): Promise<DeletionPreview> {
+  const r = await api.get(`/time_entries/${timeEntryId}`);
+  const id = String(r.data?.id ?? timeEntryId);
+  const links = r.data?._links ?? {};
+  return {
+    summary: `Delete time entry ${id} (${r.data?.hours ?? "?"} on ${r.data?.spentOn ?? "?"})`,
+    details: {
+      id,
+      hours: r.data?.hours ?? null,
+      spentOn: r.data?.spentOn ?? null,
+      workPackage: links.workPackage?.title ?? idFromHref(links.workPackage?.href),
+      project: links.project?.title ?? idFromHref(links.project?.href),
+    },
+  };
+}
+
+/**
+ * What deleting a relation removes: the link between its two work packages.
+ * Throws (e.g. not found) when the relation cannot be read.
+ */
+export async function previewRelationDeletion(api: AxiosInstance, relationId: string): Promise<DeletionPreview> {
+  const r = await api.get(`/relations/${relationId}`);
+  const id = String(r.data?.id ?? relationId);
+  const links = r.data?._links ?? {};
+  const from = idFromHref(links.from?.href);
+  const to = idFromHref(links.to?.href);
+  return {
+    summary: `Delete relation ${id} (#${from ?? "?"} ${r.data?.type ?? "relates"} #${to ?? "?"})`,
+    details: { id, type: r.data?.type ?? null, from: links.from?.title ?? from, to: links.to?.title ?? to },
+  };
+}
+
+/**
+ * What deleting a version affects: the work packages assigned to it lose their version.
+ * Throws (e.g. not found) when the version cannot be read.
+ */
+export async function previewVersionDeletion(api: AxiosInstance, versionId: string): Promise<DeletionPreview> {
+  const r = await api.get(`/versions/${versionId}`);
+  const id = String(r.data?.id ?? versionId);
+  const project = r.data?._links?.definingProject;
+  const workPackages = await countOf(api, "/work_packages", [apiFilter("version", "=", [id])]);
+  return {
+    summary: `Delete version "${r.data?.name ?? versionId}" (ID ${id})`,
+    details: { id, name: r.data?.name ?? null, project: project?.title ?? idFromHref(project?.href), workPackages },
+  };
+}
@@ -0,0 +1,56 @@
+import type { EventStore, EventId, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Bounded in-memory event store used for stream resumability (Last-Event-ID replay) of a single
+ * session: every session's standalone GET stream has the same stream ID, so a store shared between
+ * sessions would replay one session's notifications to another. Keeps at most `maxEvents` messages
+ * and evicts the oldest first, so a client that reconnects after a long gap may miss events beyond
+ * the window.
+ */
+export class InMemoryEventStore implements EventStore {
+  private events = new Map<EventId, { streamId: StreamId; message: JSONRPCMessage }>();
+  private seq = 0;
+
+  constructor(private maxEvents = 1000) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${streamId}_${Date.now()}_${++this.seq}`;
+    this.events.set(eventId, { streamId, message });
+    while (this.events.size > this.maxEvents) {
+      const oldest = this.events.keys().next().value;
+      if (oldest === undefined) break;
+      this.events.delete(oldest);
+    }
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const entry = this.events.get(lastEventId);
+    if (!entry) return "";
+    const { streamId } = entry;
+    let found = false;
+    for (const [eventId, { streamId: sid, message }] of this.events) {
+      if (sid !== streamId) continue;
+      if (eventId === lastEventId) {
+        found = true;
+        continue;
+      }
+      if (found) await send(eventId, message);
+    }
+    return streamId;
+  }
+}
+
+/**
+ * Create the event store of a session as selected by MCP_EVENT_STORE ("memory", default, or "none"
+ * to disable resumability). MCP_EVENT_STORE_MAX_EVENTS bounds the in-memory window per session.
+ */
+export function createEventStore(): EventStore | undefined {
+  if (process.env.MCP_EVENT_STORE === "none") return undefined;
+  const max = process.env.MCP_EVENT_STORE_MAX_EVENTS ? parseInt(process.env.MCP_EVENT_STORE_MAX_EVENTS, 10) : 1000;
+  return new InMemoryEventStore(Number.isFinite(max) && max > 0 ? max : 1000);
+}
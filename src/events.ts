@@ -0,0 +1,299 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import readline from "readline";
+import { logger } from "./logger.js";
+
+export type EventKind = "work_package" | "project" | "time_entry" | "attachment";
+
+/** Webhook actions OpenProject sends; others are still stored but grouped as "other" in metrics. */
+export const EVENT_ACTIONS = [
+  "work_package:created",
+  "work_package:updated",
+  "project:created",
+  "project:updated",
+  "time_entry:created",
+  "time_entry:updated",
+  "attachment:created",
+] as const;
+
+export type EventAction = (typeof EVENT_ACTIONS)[number];
+
+export const isKnownEventAction = (action: string): action is EventAction =>
+  (EVENT_ACTIONS as readonly string[]).includes(action);
+
+/**
+ * Normalized OpenProject webhook event. `action` is the raw webhook action such as
+ * "work_package:updated"; `resource` is a concise view of the changed entity.
+ */
+export type OpenProjectEvent = {
+  id: string;
+  kind: EventKind;
+  action: `${EventKind}:${string}`;
+  receivedAt: string;
+  resourceId: string | null;
+  projectId: string | null;
+  projectName: string | null;
+  /** Work package the event concerns (the package itself, a time entry's package or an attachment's container). */
+  workPackageId: string | null;
+  resource: Record<string, unknown>;
+};
+
+export type EventQuery = {
+  projectId?: string;
+  /** Actions to include; "project:*" style wildcards match every action of a kind. */
+  types?: string[];
+  since?: Date;
+  until?: Date;
+  limit?: number;
+};
+
+/**
+ * Bounded, queryable storage for received webhook events.
+ */
+export interface WebhookEventStore {
+  append(event: OpenProjectEvent): Promise<void>;
+  /** Newest first. */
+  query(q: EventQuery): Promise<OpenProjectEvent[]>;
+}
+
+const hrefId = (href?: string | null) => (href ? href.split("/").pop() ?? null : null);
+
+const conciseResource = (kind: EventKind, r: any): Record<string, unknown> => {
+  const links = r?._links ?? {};
+  switch (kind) {
+    case "work_package":
+      return {
+        id: r.id,
+        subject: r.subject ?? null,
+        type: links.type?.title ?? null,
+        status: links.status?.title ?? null,
+        assignee: links.assignee?.title ?? null,
+        priority: links.priority?.title ?? null,
+        updatedAt: r.updatedAt ?? null,
+      };
+    case "project":
+      return { id: r.id, name: r.name ?? null, identifier: r.identifier ?? null, active: r.active ?? null };
+    case "time_entry":
+      return {
+        id: r.id,
+        hours: r.hours ?? null,
+        spentOn: r.spentOn ?? null,
+        user: links.user?.title ?? null,
+        workPackage: links.workPackage?.title ?? null,
+      };
+    case "attachment":
+      return {
+        id: r.id,
+        fileName: r.fileName ?? null,
+        fileSize: r.fileSize ?? null,
+        container: links.container?.title ?? null,
+      };
+  }
+};
+
+/**
+ * Parse a raw OpenProject webhook payload ({ action, <kind>: {...} }) into a typed event.
+ * Returns null for payloads without a recognized action.
+ */
+export function parseWebhookPayload(payload: any, receivedAt = new Date()): OpenProjectEvent | null {
+  const action = typeof payload?.action === "string" ? payload.action : null;
+  const kind = action?.split(":")[0] as EventKind | undefined;
+  if (!action || !kind || !["work_package", "project", "time_entry", "attachment"].includes(kind)) return null;
+
+  const resource = payload[kind] ?? {};
+  const links = resource._links ?? {};
+  const projectId = kind === "project" ? String(resource.id ?? "") || null : hrefId(links.project?.href);
+  const projectName = kind === "project" ? resource.name ?? null : links.project?.title ?? null;
+  const wpHref =
+    kind === "work_package"
+      ? `/work_packages/${resource.id}`
+      : kind === "time_entry"
+        ? links.workPackage?.href
+        : links.container?.href?.includes("/work_packages/")
+          ? links.container.href
+          : null;
+
+  return {
+    id: crypto.randomUUID(),
+    kind,
+    action: action as OpenProjectEvent["action"],
+    receivedAt: receivedAt.toISOString(),
+    resourceId: resource.id != null ? String(resource.id) : null,
+    projectId: projectId ?? null,
+    projectName,
+    workPackageId: hrefId(wpHref),
+    resource: conciseResource(kind, resource),
+  };
+}
+
+/**
+ * Whether an event action matches a type filter; "project:*" style entries match every action of a kind.
+ */
+export const matchesEventType = (action: string, types?: string[]) =>
+  !types?.length || types.some((t) => (t.endsWith(":*") ? action.startsWith(t.slice(0, -1)) : action === t));
+
+const matches = (e: OpenProjectEvent, q: EventQuery) => {
+  if (q.projectId && e.projectId !== String(q.projectId) && e.projectName !== q.projectId) return false;
+  if (!matchesEventType(e.action, q.types)) return false;
+  const ts = Date.parse(e.receivedAt);
+  if (q.since && ts < q.since.getTime()) return false;
+  if (q.until && ts >= q.until.getTime()) return false;
+  return true;
+};
+
+/**
+ * Default store: a ring buffer of the last `maxEvents` events.
+ */
+export class InMemoryWebhookEventStore implements WebhookEventStore {
+  protected events: OpenProjectEvent[] = [];
+
+  constructor(protected maxEvents = 1000) {}
+
+  async append(event: OpenProjectEvent) {
+    this.events.push(event);
+    if (this.events.length > this.maxEvents) this.events.splice(0, this.events.length - this.maxEvents);
+  }
+
+  async query(q: EventQuery) {
+    const out: OpenProjectEvent[] = [];
+    for (let i = this.events.length - 1; i >= 0 && out.length < (q.limit ?? 100); i--) {
+      if (matches(this.events[i], q)) out.push(this.events[i]);
+    }
+    return out;
+  }
+}
+
+/**
+ * JSONL-backed store: appends every event to a file and serves queries from the in-memory
+ * window, which load() restores from the tail of the file on startup. Once the file holds twice
+ * `maxEvents` lines it is compacted to the current window, so it stays bounded.
+ */
+export class JsonlWebhookEventStore extends InMemoryWebhookEventStore {
+  private lines = 0;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string, maxEvents = 1000) {
+    super(maxEvents);
+  }
+
+  /** Restore the last `maxEvents` events, streaming the file instead of reading it whole. */
+  async load() {
+    if (!fs.existsSync(this.filePath)) return;
+    const input = readline.createInterface({ input: fs.createReadStream(this.filePath, "utf8"), crlfDelay: Infinity });
+    for await (const line of input) {
+      if (!line) continue;
+      this.lines++;
+      try {
+        this.events.push(JSON.parse(line));
+      } catch {
+        // skip torn/partial lines
+      }
+      if (this.events.length > this.maxEvents * 2) this.events.splice(0, this.events.length - this.maxEvents);
+    }
+    if (this.events.length > this.maxEvents) this.events.splice(0, this.events.length - this.maxEvents);
+    if (this.lines > this.maxEvents * 2) await this.compact();
+  }
+
+  async append(event: OpenProjectEvent) {
+    await super.append(event);
+    // serialized so compaction never races an append; a failed write does not block later ones
+    const write = this.writing.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.appendFile(this.filePath, `${JSON.stringify(event)}\n`);
+      this.lines++;
+      if (this.lines > this.maxEvents * 2) await this.compact();
+    });
+    this.writing = write.catch((err) => logger.error({ err: (err as Error).message, file: this.filePath }, "Failed to write webhook event"));
+    return write;
+  }
+
+  /** Rewrite the file with the in-memory window (atomically, via a temporary file). */
+  private async compact() {
+    const tmp = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tmp, this.events.map((e) => `${JSON.stringify(e)}\n`).join(""));
+    await fs.promises.rename(tmp, this.filePath);
+    this.lines = this.events.length;
+    logger.debug({ file: this.filePath, events: this.lines }, "Webhook event file compacted");
+  }
+}
+
+/**
+ * SQLite-backed store using Node's built-in node:sqlite (Node 22.13+). Keeps at most
+ * `maxEvents` rows, deleting the oldest on insert.
+ */
+export class SqliteWebhookEventStore implements WebhookEventStore {
+  constructor(private db: any, private maxEvents = 1000) {
+    db.exec(`CREATE TABLE IF NOT EXISTS webhook_events (
+      seq INTEGER PRIMARY KEY AUTOINCREMENT,
+      id TEXT NOT NULL,
+      action TEXT NOT NULL,
+      project_id TEXT,
+      received_at TEXT NOT NULL,
+      body TEXT NOT NULL
+    )`);
+    db.exec("CREATE INDEX IF NOT EXISTS webhook_events_received_at ON webhook_events (received_at)");
+  }
+
+  async append(event: OpenProjectEvent) {
+    this.db
+      .prepare("INSERT INTO webhook_events (id, action, project_id, received_at, body) VALUES (?, ?, ?, ?, ?)")
+      .run(event.id, event.action, event.projectId, event.receivedAt, JSON.stringify(event));
+    this.db
+      .prepare("DELETE FROM webhook_events WHERE seq <= (SELECT MAX(seq) FROM webhook_events) - ?")
+      .run(this.maxEvents);
+  }
+
+  async query(q: EventQuery) {
+    // time window in SQL, the remaining (wildcard/name) filters in JS
+    const rows = this.db
+      .prepare("SELECT body FROM webhook_events WHERE received_at >= ? AND received_at < ? ORDER BY seq DESC")
+      .all(q.since?.toISOString() ?? "", q.until?.toISOString() ?? "9999");
+    const out: OpenProjectEvent[] = [];
+    for (const row of rows) {
+      const e = JSON.parse(row.body);
+      if (matches(e, q)) out.push(e);
+      if (out.length >= (q.limit ?? 100)) break;
+    }
+    return out;
+  }
+}
+
+let store: WebhookEventStore | null = null;
+
+/**
+ * Create the process-wide event store from OPENPROJECT_EVENT_STORE ("memory", "jsonl" or "sqlite").
+ * OPENPROJECT_EVENT_STORE_PATH sets the file, OPENPROJECT_EVENT_STORE_MAX the retention bound.
+ * Falls back to memory (with an error log) when the selected backend is unavailable.
+ */
+export async function initWebhookEventStore(): Promise<WebhookEventStore> {
+  const backend = process.env.OPENPROJECT_EVENT_STORE || "memory";
+  const max = parseInt(process.env.OPENPROJECT_EVENT_STORE_MAX || "1000", 10) || 1000;
+  const dataDir = path.join(process.cwd(), "data");
+  try {
+    if (backend === "jsonl") {
+      const jsonl = new JsonlWebhookEventStore(process.env.OPENPROJECT_EVENT_STORE_PATH || path.join(dataDir, "events.jsonl"), max);
+      await jsonl.load();
+      store = jsonl;
+    } else if (backend === "sqlite") {
+      const { DatabaseSync } = await import("node:sqlite");
+      const file = process.env.OPENPROJECT_EVENT_STORE_PATH || path.join(dataDir, "events.sqlite");
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      store = new SqliteWebhookEventStore(new DatabaseSync(file), max);
+    } else {
+      store = new InMemoryWebhookEventStore(max);
+    }
+  } catch (err) {
+    logger.error({ err: (err as Error).message, backend }, "Webhook event store unavailable, using memory");
+    store = new InMemoryWebhookEventStore(max);
+  }
+  return store;
+}
+
+/**
+ * The process-wide event store (in-memory until initWebhookEventStore() selects another backend).
+ */
+export function getWebhookEventStore(): WebhookEventStore {
+  if (!store) store = new InMemoryWebhookEventStore();
+  return store;
+}
@@ -5,9 +5,17 @@ import type { ServerRequest, ServerNotification } from "@modelcontextprotocol/sd
 import { z } from "zod";
 import http from "http";
 import https from "https";
+import crypto from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
+import { logger } from "./logger.js";
+import { openProjectRequestDuration, openProjectRetries, etagCacheLookups, routeTemplate } from "./metrics.js";
+import { governorFor, retryDelayMs } from "./rateLimiter.js";
+import { getResponseCache, responseCacheKey, invalidateResponses, cacheTtlMs, cacheFreshMs } from "./responseCache.js";
 
 export type OpenProjectConfig = {
   OPENPROJECT_API_KEY?: string;
+  /** OAuth access token; when set it is sent as `Authorization: Bearer` instead of the API key. */
+  OPENPROJECT_ACCESS_TOKEN?: string;
   OPENPROJECT_URL?: string;
   OPENPROJECT_API_VERSION?: string;
 };
@@ -16,6 +24,19 @@ export type ToolContext = RequestHandlerExtra<ServerRequest, ServerNotification>
   config?: OpenProjectConfig;
 };
 
+/**
+ * Resolve the OpenProject configuration for a tool call: an explicit `context.config` wins,
+ * then per-request credentials forwarded by the transport as `authInfo` (see auth.ts).
+ * Returns undefined to fall back to the process environment.
+ */
+export function contextConfig(
+  context?: Partial<RequestHandlerExtra<ServerRequest, ServerNotification>> & { config?: OpenProjectConfig }
+): OpenProjectConfig | undefined {
+  const fromAuth = context?.authInfo?.extra?.openproject as OpenProjectConfig | undefined;
+  if (!context?.config && !fromAuth) return undefined;
+  return { ...fromAuth, ...context?.config };
+}
+
 export const missingConfigMessage =
   "OpenProject configuration is missing. Please provide OPENPROJECT_API_KEY and OPENPROJECT_URL.";
 
@@ -28,31 +49,11 @@ export const missingConfigResult: CallToolResult = {
   ],
 };
 
-/**
- * Simple in-memory counters/metrics (Prometheus-like simple counters).
- */
-export const metrics = {
-  calls: 0,
-  errors: 0,
-  retries: 0,
-  latencies: [] as number[],
-  inc(callName: keyof typeof metrics) {
-    // @ts-ignore
-    this[callName] = (this[callName] || 0) + 1;
-  },
-} as unknown as {
-  calls: number;
-  errors: number;
-  retries: number;
-  latencies: number[];
-  inc: (k: "calls" | "errors" | "retries") => void;
-};
-
 /**
  * Safe stringify for unknown values used when building readable error messages.
  * Also redacts Authorization header and obvious secrets from objects before stringifying.
  */
-const redact = (value: unknown): unknown => {
+export const redact = (value: unknown): unknown => {
   if (value == null) return value;
   if (typeof value === "string") return value;
   if (typeof value !== "object") return value;
@@ -157,9 +158,98 @@ export const pageSizeSchema = z.number().int().positive().max(100).default(25);
 export const offsetSchema = z.number().int().positive().default(1);
 
 /**
- * ETag cache to avoid re-fetching unchanged lists.
+ * Hooks for the OpenProject requests a tool call sends. `beforeWrite` runs before every write
+ * (non-GET, except validation-only /form endpoints) and rejects it by throwing; `afterWrite`
+ * sees the final status of every such write (null when it failed without a response).
  */
-const etagCache = new Map<string, { etag: string; data: any }>();
+export type ToolCallScope = {
+  beforeWrite?: (api: AxiosInstance, method: string, url: string, data: unknown) => Promise<void>;
+  afterWrite?: (method: string, url: string, status: number | null) => void;
+};
+
+const toolCallScope = new AsyncLocalStorage<ToolCallScope>();
+
+/** Validation-only /form endpoints (e.g. validateOnly calls) change nothing and are not writes. */
+const isFormRequest = (url?: string) => /\/form(\?|$)/.test(url ?? "");
+
+/**
+ * Run fn with additional request hooks; hooks of an enclosing scope stay in effect unless overridden.
+ */
+export function runInToolCallScope<T>(hooks: ToolCallScope, fn: () => T): T {
+  return toolCallScope.run({ ...toolCallScope.getStore(), ...hooks }, fn);
+}
+
+/**
+ * Axios instances cached per credential (URL + API version + key hash), bounded so a
+ * long-running shared deployment doesn't accumulate one instance per key forever.
+ */
+const apiCache = new Map<string, AxiosInstance>();
+const API_CACHE_MAX = 100;
+
+/**
+ * Identity of the credential behind an instance: a short hash (never the key itself)
+ * and the lazily resolved OpenProject user.
+ */
+type ActingUser = { id: number | string | null; login: string | null; name: string | null };
+const instanceIdentity = new WeakMap<AxiosInstance, { credentialId: string; user?: Promise<ActingUser | null> }>();
+
+/**
+ * Return the OpenProject user acting through this instance (cached per credential).
+ * Resolves to null when /users/me cannot be read.
+ */
+export function getActingUser(api: AxiosInstance): Promise<ActingUser | null> {
+  const identity = instanceIdentity.get(api);
+  if (!identity) return Promise.resolve(null);
+  if (!identity.user) {
+    identity.user = api
+      .get("/users/me")
+      .then((r) => ({ id: r.data?.id ?? null, login: r.data?.login ?? null, name: r.data?.name ?? null }))
+      .catch(() => {
+        // allow a later retry instead of caching the failure
+        identity.user = undefined;
+        return null;
+      });
+  }
+  return identity.user;
+}
+
+/**
+ * Whether the credential behind an instance may read a project, cached per credential for a few
+ * minutes (webhook events are filtered with it on every query).
+ */
+const readableProjects = new Map<string, { readable: boolean; expires: number }>();
+const READABLE_PROJECTS_MAX = 5000;
+const READABLE_PROJECTS_TTL_MS = 5 * 60_000;
+
+export async function projectReadable(api: AxiosInstance, projectId: string): Promise<boolean> {
+  const key = `${getCredentialId(api)}|${projectId}`;
+  const cached = readableProjects.get(key);
+  if (cached && cached.expires > Date.now()) return cached.readable;
+  let readable: boolean;
+  try {
+    await api.get(`/projects/${projectId}`);
+    readable = true;
+  } catch (err) {
+    const status = axios.isAxiosError(err) ? err.response?.status : undefined;
+    // only a definite answer is cached; anything else hides the project for this call only
+    if (status !== 403 && status !== 404) return false;
+    readable = false;
+  }
+  readableProjects.delete(key);
+  readableProjects.set(key, { readable, expires: Date.now() + READABLE_PROJECTS_TTL_MS });
+  if (readableProjects.size > READABLE_PROJECTS_MAX) {
+    const oldest = readableProjects.keys().next().value;
+    if (oldest !== undefined) readableProjects.delete(oldest);
+  }
+  return readable;
+}
+
+/**
+ * Short, non-reversible identifier of the credential used by an instance (for logs).
+ */
+export function getCredentialId(api: AxiosInstance): string | null {
+  return instanceIdentity.get(api)?.credentialId ?? null;
+}
 
 /**
  * Create an axios instance configured for OpenProject with sensible defaults:
@@ -167,99 +257,197 @@ const etagCache = new Map<string, { etag: string; data: any }>();
  * - gzip Accept-Encoding
  * - User-Agent 'mcp-openproject/1.0'
  * - HTTP keep-alive agents
- * - retry interceptor for 429/5xx with exponential backoff
+ * - retry interceptor for 429/5xx (Retry-After aware, exponential backoff otherwise)
+ * - per-host rate limit, max-in-flight cap and circuit breaker (see rateLimiter.ts)
  *
+ * Instances are cached per credential, so each client key reuses its own connection pool.
  * This function never throws; it returns null when required config is missing.
  */
 export function getOpenProjectApi(config?: OpenProjectConfig): AxiosInstance | null {
-  const OPENPROJECT_API_KEY = config?.OPENPROJECT_API_KEY || process.env.OPENPROJECT_API_KEY;
+  const OPENPROJECT_ACCESS_TOKEN = config?.OPENPROJECT_ACCESS_TOKEN;
+  // an OAuth token never falls back to the process-wide API key
+  const OPENPROJECT_API_KEY = OPENPROJECT_ACCESS_TOKEN
+    ? undefined
+    : config?.OPENPROJECT_API_KEY || process.env.OPENPROJECT_API_KEY;
   const OPENPROJECT_URL = config?.OPENPROJECT_URL || process.env.OPENPROJECT_URL;
   const OPENPROJECT_API_VERSION =
     config?.OPENPROJECT_API_VERSION || process.env.OPENPROJECT_API_VERSION || "v3";
 
-  if (!OPENPROJECT_API_KEY || !OPENPROJECT_URL) {
+  if ((!OPENPROJECT_API_KEY && !OPENPROJECT_ACCESS_TOKEN) || !OPENPROJECT_URL) {
     return null;
   }
 
   const baseURL = `${OPENPROJECT_URL.replace(/\/$/, "")}/api/${OPENPROJECT_API_VERSION}`;
+  const secret = OPENPROJECT_ACCESS_TOKEN ?? OPENPROJECT_API_KEY;
+  const credentialId = crypto.createHash("sha256").update(`${baseURL}|${secret}`).digest("hex").slice(0, 12);
+  const authorization = OPENPROJECT_ACCESS_TOKEN
+    ? `Bearer ${OPENPROJECT_ACCESS_TOKEN}`
+    : `Basic ${Buffer.from(`apikey:${OPENPROJECT_API_KEY}`).toString("base64")}`;
+
+  const cached = apiCache.get(credentialId);
+  if (cached) {
+    // refresh LRU position
+    apiCache.delete(credentialId);
+    apiCache.set(credentialId, cached);
+    return cached;
+  }
+
+  const governor = governorFor(baseURL);
 
   const instance = axios.create({
     baseURL,
     timeout: 15_000,
     headers: {
       "Content-Type": "application/json",
-      Authorization: `Basic ${Buffer.from(`apikey:${OPENPROJECT_API_KEY}`).toString("base64")}`,
+      Authorization: authorization,
       "Accept-Encoding": "gzip, deflate",
       "User-Agent": "mcp-openproject/1.0",
     },
     httpAgent: new http.Agent({ keepAlive: true }),
     httpsAgent: new https.Agent({ keepAlive: true }),
+    // 304 Not Modified is answered from the ETag cache below
+    validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
   });
 
-  // Request interceptor: attach If-None-Match when we have a cached ETag for GETs
-  instance.interceptors.request.use((req) => {
-    try {
-      metrics.inc("calls");
-      if (req && req.method && req.method.toLowerCase() === "get") {
-        const key = `${req.baseURL || ""}${req.url || ""}`;
-        const cached = etagCache.get(key);
-        if (cached?.etag) {
-          req.headers = req.headers || {};
-          // only set If-None-Match when we have one
-          req.headers["If-None-Match"] = cached.etag;
+  // per-attempt request timing for the duration histogram
+  const observe = (config: any, status: number | string) => {
+    const started = config?.__startedAt;
+    if (typeof started !== "number") return;
+    openProjectRequestDuration.observe(
+      { method: (config.method ?? "get").toUpperCase(), route: routeTemplate(config.url), status: String(status) },
+      (Date.now() - started) / 1000
+    );
+  };
+
+  // Request interceptor: look GETs up in the response cache (keyed by credential, path and params).
+  // Fresh entries are answered locally; older ones are revalidated with If-None-Match.
+  // Everything that goes to OpenProject waits for the host's rate limiter and in-flight slot.
+  instance.interceptors.request.use(async (req) => {
+    const cache = getResponseCache();
+    if (cache && req.method?.toLowerCase() === "get") {
+      try {
+        const key = await responseCacheKey(cache, credentialId, req.url ?? "", req.params);
+        (req as any).__cacheKey = key;
+        const cached = await cache.get(key);
+        if (cached) {
+          (req as any).__cached = cached;
+          if (Date.now() - cached.storedAt < cacheFreshMs()) {
+            (req as any).__servedFromCache = true;
+            req.adapter = async (config) => ({ data: cached.data, status: 200, statusText: "OK", headers: {}, config, request: {} });
+            return req;
+          }
+          if (cached.etag) req.headers["If-None-Match"] = cached.etag;
         }
+      } catch (err) {
+        // a broken cache backend must not fail the request
+        logger.debug({ err: (err as Error).message }, "Response cache lookup failed");
       }
-    } catch {
-      // ignore metrics/etag errors
     }
+
+    const beforeWrite = toolCallScope.getStore()?.beforeWrite;
+    const method = req.method?.toLowerCase();
+    if (beforeWrite && method && method !== "get" && !isFormRequest(req.url) && !(req as any).__writeChecked) {
+      await beforeWrite(instance, method, req.url ?? "", req.data);
+      // retries re-enter this interceptor; the target does not change
+      (req as any).__writeChecked = true;
+    }
+
+    await governor.acquire();
+    (req as any).__slot = true;
+    (req as any).__startedAt = Date.now();
     return req;
   });
 
+  // free the in-flight slot of a finished attempt and feed the circuit breaker
+  const settle = (config: any, status?: number) => {
+    if (!config?.__slot) return;
+    config.__slot = false;
+    governor.release();
+    governor.record(status);
+  };
+
   // Response + retry interceptor
   instance.interceptors.response.use(
-    (response) => {
-      try {
-        // store ETag for GET responses
-        if (response.config && response.config.method === "get" && response.headers?.etag) {
-          const key = `${response.config.baseURL || ""}${response.config.url || ""}`;
-          etagCache.set(key, { etag: response.headers.etag, data: response.data });
-        }
-        // Handle 304 -> return cached body as fresh 200-like response
-        if (response.status === 304) {
-          const key = `${response.config.baseURL || ""}${response.config.url || ""}`;
-          const cached = etagCache.get(key);
-          if (cached) {
+    async (response) => {
+      const config: any = response.config ?? {};
+      const method = config.method?.toLowerCase();
+      if (config.__servedFromCache) {
+        etagCacheLookups.inc({ result: "hit" });
+        return response;
+      }
+      settle(config, response.status);
+      observe(config, response.status);
+
+      if (method === "get") {
+        etagCacheLookups.inc({ result: response.status === 304 ? "hit" : "miss" });
+        const cache = getResponseCache();
+        try {
+          if (response.status === 304 && config.__cached) {
+            // Not Modified: answer with the cached body and restart its freshness window
+            const cached = { ...config.__cached, storedAt: Date.now() };
+            if (cache && config.__cacheKey) await cache.set(config.__cacheKey, cached, cacheTtlMs());
             return { ...response, status: 200, data: cached.data };
           }
+          const etag = response.headers?.etag ?? null;
+          if (cache && config.__cacheKey && (etag || cacheFreshMs() > 0)) {
+            await cache.set(config.__cacheKey, { etag, data: response.data, storedAt: Date.now() }, cacheTtlMs());
+          }
+        } catch (err) {
+          logger.debug({ err: (err as Error).message }, "Response cache update failed");
         }
-      } catch {
-        // ignore cache errors
+        return response;
+      }
+
+      if (method && !isFormRequest(config.url)) {
+        // writes invalidate cached reads of the touched resources (for every credential)
+        await invalidateResponses(config.url ?? "");
+        // record who changed what; the acting user is resolved once per credential
+        const url = config.url;
+        const status = response.status;
+        toolCallScope.getStore()?.afterWrite?.(method, url ?? "", status);
+        void getActingUser(instance).then((actor) =>
+          logger.info({ actor, credentialId, method, url, status }, "OpenProject write")
+        );
       }
       return response;
     },
     async (err) => {
       const config: any = err.config;
-      metrics.inc("errors");
       if (!config) return Promise.reject(err);
+      settle(config, err.response?.status);
+      observe(config, err.response?.status ?? "error");
 
       config.__retryCount = config.__retryCount || 0;
       const status = err.response?.status;
 
-      // Retry on 429 or 5xx
+      // Retry on 429 or 5xx, honoring Retry-After
       const shouldRetry = status === 429 || (status >= 500 && status < 600);
       const maxRetries = 4;
       if (shouldRetry && config.__retryCount < maxRetries) {
         config.__retryCount += 1;
-        metrics.inc("retries");
-        const delay = Math.pow(2, config.__retryCount) * 100 + Math.floor(Math.random() * 100);
+        openProjectRetries.inc({ method: (config.method ?? "get").toUpperCase(), route: routeTemplate(config.url), status: String(status) });
+        const delay = retryDelayMs(err.response?.headers?.["retry-after"], config.__retryCount);
+        // a 429 throttles every request to this host, not just the retried one
+        if (status === 429) governor.pause(delay);
         await new Promise((res) => setTimeout(res, delay));
         return instance.request(config);
       }
 
+      const method = config.method?.toLowerCase();
+      if (method && method !== "get" && !isFormRequest(config.url)) {
+        toolCallScope.getStore()?.afterWrite?.(method, config.url ?? "", status ?? null);
+      }
       return Promise.reject(err);
     }
   );
 
+  instanceIdentity.set(instance, { credentialId });
+  apiCache.set(credentialId, instance);
+  if (apiCache.size > API_CACHE_MAX) {
+    const oldest = apiCache.keys().next().value;
+    if (oldest !== undefined) apiCache.delete(oldest);
+  }
+
   return instance;
 }
 
@@ -276,7 +464,9 @@ export const withOpenProject =
     options?: { allowMissingConfig?: boolean }
   ) =>
   async (params: any, context?: ToolContext): Promise<CallToolResult> => {
-    const openProjectApi = getOpenProjectApi(context?.config);
+    const config = contextConfig(context);
+    if (context && config) context = { ...context, config };
+    const openProjectApi = getOpenProjectApi(config);
     if (!openProjectApi) {
       if (options?.allowMissingConfig) {
         // let handler decide what to do
@@ -310,6 +500,601 @@ export async function resolveByName(api: AxiosInstance, path: string, name: stri
   return el ? el._links?.self?.href : null;
 }
 
+/**
+ * Extract the trailing ID from an API href such as /api/v3/statuses/7. Returns null for empty hrefs.
+ */
+export function idFromHref(href?: string | null): string | null {
+  if (!href) return null;
+  return href.split("/").pop() || null;
+}
+
+/**
+ * Resolve a name to an ID using resolveByName. Numeric values are returned unchanged.
+ */
+export async function resolveIdByName(api: AxiosInstance, path: string, name: string) {
+  if (/^\d+$/.test(String(name))) return String(name);
+  return idFromHref(await resolveByName(api, path, name));
+}
+
+/**
+ * Resolve a user or group by ID, login, name or email via /principals.
+ * Returns a concise principal ({ id, name, type, href }) or null when nothing matches exactly.
+ */
+export async function resolvePrincipal(api: AxiosInstance, query: string) {
+  const q = String(query).trim();
+  const filters = /^\d+$/.test(q)
+    ? [{ id: { operator: "=", values: [q] } }]
+    : [{ any_name_attribute: { operator: "~", values: [q] } }];
+  const r = await api.get("/principals", { params: { filters: JSON.stringify(filters), pageSize: 100 } });
+  const els = r.data?._embedded?.elements ?? [];
+  const lower = q.toLowerCase();
+  const el = /^\d+$/.test(q)
+    ? els[0]
+    : els.find(
+        (p: any) =>
+          String(p.login ?? "").toLowerCase() === lower ||
+          String(p.email ?? "").toLowerCase() === lower ||
+          String(p.name ?? "").toLowerCase() === lower
+      );
+  if (!el) return null;
+  return {
+    id: String(el.id),
+    name: el.name ?? el.login ?? null,
+    type: el._type ?? null,
+    href: el._links?.self?.href ?? null,
+  };
+}
+
+/**
+ * Work package link fields that can be set by name, mapped to the collection used to resolve them.
+ * Project-scoped collections (types, versions, categories) are resolved within the work package's project.
+ */
+const workPackageLinkCollections: Record<string, (projectId?: string) => string> = {
+  status: () => "/statuses",
+  priority: () => "/priorities",
+  type: (projectId) => (projectId ? `/projects/${projectId}/types` : "/types"),
+  version: (projectId) => `/projects/${projectId}/versions`,
+  category: (projectId) => `/projects/${projectId}/categories`,
+};
+
+/**
+ * Shared resolver for work package link fields (status, assignee, responsible, priority, type,
+ * version, category, parent). Accepts IDs or names; null clears the link.
+ * Returns { href } on success (href may be null) or null when the value cannot be resolved.
+ */
+export async function resolveWorkPackageLink(
+  api: AxiosInstance,
+  field: string,
+  value: string | number | null,
+  projectId?: string
+): Promise<{ href: string | null } | null> {
+  if (value === null) return { href: null };
+  const v = String(value).trim();
+  if (field === "assignee" || field === "responsible") {
+    if (v === "me") return { href: "/api/v3/users/me" };
+    const principal = await resolvePrincipal(api, v);
+    return principal?.href ? { href: principal.href } : null;
+  }
+  if (field === "parent") {
+    return /^\d+$/.test(v.replace(/^#/, "")) ? { href: `/api/v3/work_packages/${v.replace(/^#/, "")}` } : null;
+  }
+  const collection = workPackageLinkCollections[field];
+  if (!collection) return null;
+  const path = collection(projectId);
+  if (/^\d+$/.test(v)) return { href: `/api/v3${path.replace(/^\/projects\/[^/]+/, "")}/${v}` };
+  const href = await resolveByName(api, path, v);
+  return href ? { href } : null;
+}
+
+/**
+ * Compare two work package representations and list the fields that actually changed.
+ * Links are compared by title, formattable fields by their raw text.
+ */
+export function diffWorkPackage(before: any, after: any) {
+  const changes: { field: string; from: unknown; to: unknown }[] = [];
+  const scalar = (wp: any, k: string) => {
+    const v = wp?.[k];
+    if (v && typeof v === "object" && "raw" in v) return v.raw;
+    return v ?? null;
+  };
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  for (const k of keys) {
+    if (k.startsWith("_") || k === "lockVersion" || k === "updatedAt" || k === "createdAt") continue;
+    const from = scalar(before, k);
+    const to = scalar(after, k);
+    if (JSON.stringify(from) !== JSON.stringify(to)) changes.push({ field: k, from, to });
+  }
+  const linkTitle = (l: any) => (Array.isArray(l) ? l.map((x) => x.title ?? x.href) : l?.title ?? l?.href ?? null);
+  const linkKeys = new Set([...Object.keys(before?._links ?? {}), ...Object.keys(after?._links ?? {})]);
+  const actionLink = /^(update|delete|logTime|move|copy|pdf|atom|available|add|remove|change|prepare|customActions|schema|self|attachments|activities|watchers|relations|revisions|ancestors|children|timeEntries|fileLinks|github|gitlab)/;
+  for (const k of linkKeys) {
+    if (actionLink.test(k)) continue;
+    const from = linkTitle(before?._links?.[k]);
+    const to = linkTitle(after?._links?.[k]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) changes.push({ field: k, from, to });
+  }
+  return changes;
+}
+
+/**
+ * A single OpenProject API filter, e.g. { status: { operator: "o", values: [] } }.
+ * Common operators: "=" (is), "!" (is not), "~" (contains), "**" (full-text search),
+ * "<>d" (between dates, inclusive), "o" / "c" (open / closed status).
+ */
+export type ApiFilter = Record<string, { operator: string; values: string[] }>;
+
+export function apiFilter(field: string, operator: string, values: Array<string | number> = []): ApiFilter {
+  return { [field]: { operator, values: values.map(String) } };
+}
+
+/**
+ * The single status filter for include/exclude status IDs and an open/closed/all state.
+ * OpenProject accepts one filter per field, so combinations become one "=" list; `statuses`
+ * (id + isClosed of every status) is only consulted when a state has to be combined with IDs.
+ * Returns null when nothing restricts the status.
+ */
+export function statusFilter(
+  include: string[] | null,
+  exclude: string[] | null,
+  state: "open" | "closed" | "all",
+  statuses: Array<{ id: string; isClosed: boolean }> = []
+): ApiFilter | null {
+  if (!include && !exclude) {
+    if (state === "open") return apiFilter("status", "o");
+    if (state === "closed") return apiFilter("status", "c");
+    return null;
+  }
+  if (!include && state === "all") return apiFilter("status", "!", exclude as string[]);
+  let ids = include ?? statuses.map((s) => s.id);
+  if (state !== "all") {
+    const closed = new Set(statuses.filter((s) => s.isClosed).map((s) => s.id));
+    ids = ids.filter((id) => closed.has(id) === (state === "closed"));
+  }
+  if (exclude) ids = ids.filter((id) => !exclude.includes(id));
+  return apiFilter("status", "=", ids);
+}
+
+/**
+ * Serialize filters for the `filters` query parameter. Returns undefined when empty so the
+ * parameter is omitted instead of sending "[]".
+ */
+export function filtersParam(filters: ApiFilter[]) {
+  return filters.length ? JSON.stringify(filters) : undefined;
+}
+
+/**
+ * Collections used to resolve names for link-valued filters (status, type, ...).
+ */
+export const linkFilterCollections: Record<string, string> = {
+  status: "/statuses",
+  type: "/types",
+  priority: "/priorities",
+  project: "/projects",
+  version: "/versions",
+};
+
+/**
+ * Principal-valued filters. Their values are resolved through resolvePrincipal (users, groups and
+ * placeholder users; /users needs admin rights) and given as principal hrefs, or "me".
+ */
+export const principalFilterFields = ["assignee", "responsible", "author"];
+
+/**
+ * Convert an ApiFilter into the HAL representation used when saving a query (POST /queries).
+ * Link-valued filters reference their values by href; everything else passes raw values.
+ */
+export function toQueryFilter(filter: ApiFilter) {
+  const [field, { operator, values }] = Object.entries(filter)[0];
+  const links: any = {
+    filter: { href: `/api/v3/queries/filters/${field}` },
+    operator: { href: `/api/v3/queries/operators/${encodeURIComponent(operator)}` },
+  };
+  if (principalFilterFields.includes(field)) {
+    links.values = values.map((v) => ({ href: v === "me" ? "/api/v3/users/me" : v }));
+    return { _links: links };
+  }
+  const collection = linkFilterCollections[field];
+  if (collection) {
+    links.values = values.map((v) => ({ href: `/api/v3${collection}/${v}` }));
+    return { _links: links };
+  }
+  return { _links: links, values };
+}
+
+/**
+ * Compute paging info from an OpenProject collection response using its own metadata
+ * (total/count) rather than the number of elements we happen to keep.
+ */
+export function collectionPaging(data: any, offset = 1, pageSize = 25) {
+  const count = data?.count ?? data?._embedded?.elements?.length ?? 0;
+  const total = typeof data?.total === "number" ? data.total : null;
+  const nextOffset =
+    total !== null ? (offset * pageSize < total ? offset + 1 : null) : count < pageSize ? null : offset + 1;
+  return { total, count, nextOffset };
+}
+
+/**
+ * Resolve a time entry activity by name (or numeric id) to its href.
+ * Activities have no global collection endpoint, so the allowed values are read from
+ * the /time_entries/form schema (scoped to the work package when one is given).
+ */
+export async function resolveTimeEntryActivity(api: AxiosInstance, name: string, workPackageId?: string | number) {
+  if (/^\d+$/.test(String(name))) return `/api/v3/time_entries/activities/${name}`;
+  const payload: any = { _links: {} };
+  if (workPackageId) payload._links.workPackage = { href: `/api/v3/work_packages/${workPackageId}` };
+  const r = await api.post("/time_entries/form", payload);
+  const allowed = r.data?._embedded?.schema?.activity?._embedded?.allowedValues ?? [];
+  const el = allowed.find((e: any) => e.name === name || e.title === name);
+  return el ? el._links?.self?.href : null;
+}
+
+/**
+ * Convert hours given as a decimal (1.5 / "1.5") or as "1h30m" / "45m" into an ISO 8601
+ * duration such as "PT1H30M". ISO durations are passed through. Returns null when unparsable.
+ */
+export function toIsoDuration(input: string | number): string | null {
+  if (typeof input === "number") {
+    if (!Number.isFinite(input) || input < 0) return null;
+    const totalMinutes = Math.round(input * 60);
+    const h = Math.floor(totalMinutes / 60);
+    const m = totalMinutes % 60;
+    return `PT${h ? `${h}H` : ""}${m || !h ? `${m}M` : ""}`;
+  }
+  const raw = String(input).trim();
+  if (/^PT(?=\d)(\d+(\.\d+)?H)?(\d+M)?$/i.test(raw)) return raw.toUpperCase();
+  if (/^\d+(\.\d+)?$/.test(raw)) return toIsoDuration(parseFloat(raw));
+  const m = raw.toLowerCase().replace(/\s+/g, "").match(/^(?:(\d+(?:\.\d+)?)h)?(?:(\d+)m(?:in)?)?$/);
+  if (!m || (!m[1] && !m[2])) return null;
+  return toIsoDuration(parseFloat(m[1] ?? "0") + parseInt(m[2] ?? "0", 10) / 60);
+}
+
+/**
+ * Convert an ISO 8601 duration ("PT1H30M") to decimal hours (1.5). Returns null when unparsable.
+ */
+export function isoDurationToHours(duration?: string | null): number | null {
+  if (!duration) return null;
+  const m = String(duration).match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+  if (!m) return null;
+  const [, d, h, min, sec] = m;
+  const hours = parseFloat(d ?? "0") * 24 + parseFloat(h ?? "0") + parseFloat(min ?? "0") / 60 + parseFloat(sec ?? "0") / 3600;
+  return Math.round(hours * 100) / 100;
+}
+
+/**
+ * Find the customFieldN key of a schema (work package schema or filter map) by its display name.
+ * Accepts the raw key ("customField3") as well. Matching is case-insensitive.
+ */
+export function findCustomFieldKey(fields: Record<string, any>, name: string): string | null {
+  if (/^customField\d+$/.test(name) && name in fields) return name;
+  const lower = name.toLowerCase();
+  const key = Object.keys(fields).find(
+    (k) => /^customField\d+$/.test(k) && String(fields[k]?.name ?? "").toLowerCase() === lower
+  );
+  return key ?? null;
+}
+
+const allowedValuesOf = (field: any): any[] => {
+  const embedded = field?._embedded?.allowedValues;
+  if (Array.isArray(embedded)) return embedded.map((v: any) => ({ href: v._links?.self?.href, title: v.value ?? v.name ?? v.title }));
+  const linked = field?._links?.allowedValues;
+  return Array.isArray(linked) ? linked : [];
+};
+
+/**
+ * Load the schema of a work package (or of a project/type pair for new work packages).
+ * Schemas are cached per call site through the optional cache map.
+ */
+export async function getWorkPackageSchema(
+  api: AxiosInstance,
+  target: { workPackage?: any; projectId?: string | number; typeId?: string | number },
+  cache?: Map<string, any>
+) {
+  const href: string =
+    target.workPackage?._links?.schema?.href ?? `/api/v3/work_packages/schemas/${target.projectId}-${target.typeId}`;
+  const path = href.replace(/^\/api\/v3/, "");
+  if (cache?.has(path)) return cache.get(path);
+  const r = await api.get(path);
+  cache?.set(path, r.data);
+  return r.data;
+}
+
+/**
+ * Validate custom field values against a work package schema and write them into a PATCH/POST payload.
+ * Scalar fields are set as properties, list/user/version fields are resolved to _links hrefs.
+ * Returns a list of human-readable errors; the payload is only touched for valid fields.
+ */
+export async function applyCustomFields(
+  api: AxiosInstance,
+  schema: Record<string, any>,
+  customFields: Record<string, unknown>,
+  payload: any
+): Promise<string[]> {
+  const errors: string[] = [];
+  for (const [name, value] of Object.entries(customFields)) {
+    const key = findCustomFieldKey(schema, name);
+    if (!key) {
+      errors.push(`unknown custom field "${name}"`);
+      continue;
+    }
+    const field = schema[key];
+    const fieldType: string = field.type ?? "String";
+    const multi = fieldType.startsWith("[]");
+    const baseType = multi ? fieldType.slice(2) : fieldType;
+
+    if (field.writable === false) {
+      errors.push(`custom field "${name}" is read-only`);
+      continue;
+    }
+
+    if (value === null) {
+      if (["CustomOption", "User", "Version"].includes(baseType)) {
+        payload._links = payload._links || {};
+        payload._links[key] = multi ? [] : { href: null };
+      } else {
+        payload[key] = null;
+      }
+      continue;
+    }
+
+    switch (baseType) {
+      case "String":
+        if (typeof value !== "string") errors.push(`custom field "${name}" expects a string`);
+        else payload[key] = value;
+        break;
+      case "Formattable":
+      case "Text":
+        if (typeof value !== "string") errors.push(`custom field "${name}" expects text`);
+        else payload[key] = { raw: value };
+        break;
+      case "Integer": {
+        const n = Number(value);
+        if (!Number.isInteger(n)) errors.push(`custom field "${name}" expects an integer`);
+        else payload[key] = n;
+        break;
+      }
+      case "Float": {
+        const n = Number(value);
+        if (!Number.isFinite(n)) errors.push(`custom field "${name}" expects a number`);
+        else payload[key] = n;
+        break;
+      }
+      case "Boolean":
+        if (typeof value === "boolean") payload[key] = value;
+        else if (value === "true" || value === "false") payload[key] = value === "true";
+        else errors.push(`custom field "${name}" expects true/false`);
+        break;
+      case "Date":
+        if (typeof value !== "string" || !/^[0-9]{4}-[0-9]{2}-[0-9]{2}$/.test(value)) {
+          errors.push(`custom field "${name}" expects a date (YYYY-MM-DD)`);
+        } else payload[key] = value;
+        break;
+      case "CustomOption":
+      case "User":
+      case "Version": {
+        const wanted = (Array.isArray(value) ? value : [value]).map(String);
+        if (!multi && wanted.length > 1) {
+          errors.push(`custom field "${name}" accepts a single value`);
+          break;
+        }
+        const allowed = allowedValuesOf(field);
+        const hrefs: string[] = [];
+        for (const w of wanted) {
+          const lower = w.toLowerCase();
+          let href: string | null =
+            allowed.find((a: any) => String(a.title ?? "").toLowerCase() === lower || idFromHref(a.href) === w)?.href ?? null;
+          // user fields link to a (possibly huge) collection instead of embedding values
+          if (!href && baseType === "User") href = (await resolvePrincipal(api, w))?.href ?? null;
+          if (href) hrefs.push(href);
+          else {
+            const options = allowed.map((a: any) => a.title).filter(Boolean).slice(0, 20);
+            errors.push(`invalid value "${w}" for custom field "${name}"${options.length ? ` (allowed: ${options.join(", ")})` : ""}`);
+          }
+        }
+        if (hrefs.length === wanted.length) {
+          payload._links = payload._links || {};
+          payload._links[key] = multi ? hrefs.map((href) => ({ href })) : { href: hrefs[0] };
+        }
+        break;
+      }
+      default:
+        payload[key] = value;
+    }
+  }
+  return errors;
+}
+
+/**
+ * Build a work package PATCH payload from update-task style params: plain fields, estimates,
+ * link fields resolved by name (null clears) and custom fields validated against the package's schema.
+ * `lockVersion` is not set. Returns human-readable errors instead of throwing.
+ */
+export async function buildWorkPackageUpdate(
+  api: AxiosInstance,
+  current: any,
+  params: Record<string, any>
+): Promise<{ payload: any; errors: string[] }> {
+  const projectId = idFromHref(current?._links?.project?.href) ?? undefined;
+  const payload: any = {};
+  const errors: string[] = [];
+
+  if (params.subject) payload.subject = params.subject;
+  if (params.description) payload.description = { raw: params.description };
+  for (const field of ["startDate", "dueDate", "percentageDone"]) {
+    if (params[field] !== undefined) payload[field] = params[field];
+  }
+  if (params.estimatedTime !== undefined) {
+    const duration = params.estimatedTime === null ? null : toIsoDuration(params.estimatedTime);
+    if (params.estimatedTime !== null && !duration) errors.push(`invalid estimatedTime value: ${params.estimatedTime}`);
+    else payload.estimatedTime = duration;
+  }
+
+  const unresolved: string[] = [];
+  for (const field of ["status", "assignee", "responsible", "priority", "type", "version", "category", "parent"]) {
+    if (params[field] === undefined) continue;
+    const link = await resolveWorkPackageLink(api, field, params[field], projectId);
+    if (!link) {
+      unresolved.push(`${field}=${params[field]}`);
+      continue;
+    }
+    payload._links = payload._links || {};
+    payload._links[field] = link;
+  }
+  if (unresolved.length) errors.push(`could not resolve: ${unresolved.join(", ")}`);
+
+  if (params.customFields && Object.keys(params.customFields).length) {
+    const schema = await getWorkPackageSchema(api, { workPackage: current });
+    errors.push(...(await applyCustomFields(api, schema, params.customFields, payload)));
+  }
+  return { payload, errors };
+}
+
+/**
+ * Post a markdown comment on a work package. Returns the created activity response.
+ */
+export async function addWorkPackageComment(
+  api: AxiosInstance,
+  workPackageId: string | number,
+  comment: string,
+  options: { internal?: boolean; notify?: boolean; idempotencyKey?: string } = {}
+) {
+  const payload: any = { comment: { raw: comment } };
+  if (options.internal) payload.internal = true;
+
+  const config: any = { headers: {} };
+  if (options.idempotencyKey) config.headers["Idempotency-Key"] = options.idempotencyKey;
+  if (options.notify !== undefined) config.params = { notify: options.notify };
+  return api.post(`/work_packages/${workPackageId}/activities`, payload, config);
+}
+
+/**
+ * Build API filters for custom fields keyed by display name, using the query filter schemas
+ * to map names to customFieldN. List values may be option titles or IDs; user fields accept
+ * IDs, logins, names, emails or "me", version fields IDs or names.
+ */
+export async function customFieldFilters(api: AxiosInstance, customFields: Record<string, unknown>, projectId?: string) {
+  const path = projectId ? `/projects/${projectId}/queries/filter_instance_schemas` : "/queries/filter_instance_schemas";
+  const r = await api.get(path);
+  const schemas: Record<string, any> = {};
+  for (const el of r.data?._embedded?.elements ?? []) {
+    const href: string = el._links?.filter?.href ?? "";
+    const key = href.split("/").pop() ?? "";
+    if (/^customField\d+$/.test(key)) schemas[key] = { ...el, name: el._links?.filter?.title ?? el.name };
+  }
+
+  // collect every {href,title} pair below a filter schema (allowed values live in its dependencies)
+  const options = (node: any, acc: any[] = []) => {
+    if (!node || typeof node !== "object") return acc;
+    if (typeof node.href === "string" && node.href.includes("/custom_options/")) acc.push(node);
+    for (const v of Object.values(node)) options(v, acc);
+    return acc;
+  };
+
+  // user and version fields: named by the filter's value type or its allowedValues collection link
+  const linkKind = (node: any): "User" | "Version" | null => {
+    if (!node || typeof node !== "object") return null;
+    for (const [k, v] of Object.entries(node)) {
+      if (k === "type" && typeof v === "string") {
+        const m = /^(?:\[\])?(User|Version)$/.exec(v);
+        if (m) return m[1] as "User" | "Version";
+      }
+      if (k === "href" && typeof v === "string") {
+        if (/\/(principals|users)(\?|$)/.test(v)) return "User";
+        if (/\/versions(\?|$)/.test(v)) return "Version";
+      }
+      const found = linkKind(v);
+      if (found) return found;
+    }
+    return null;
+  };
+
+  const filters: ApiFilter[] = [];
+  const errors: string[] = [];
+  for (const [name, value] of Object.entries(customFields)) {
+    const key = findCustomFieldKey(schemas, name);
+    if (!key) {
+      errors.push(`unknown custom field filter "${name}"`);
+      continue;
+    }
+    const wanted = (Array.isArray(value) ? value : [value]).map(String);
+    const kind = linkKind(schemas[key]);
+    if (kind) {
+      const ids: string[] = [];
+      for (const w of wanted) {
+        const id =
+          /^\d+$/.test(w) || (kind === "User" && w === "me")
+            ? w
+            : kind === "User"
+              ? ((await resolvePrincipal(api, w))?.id ?? null)
+              : await resolveIdByName(api, projectId ? `/projects/${projectId}/versions` : "/versions", w);
+        if (id) ids.push(id);
+        else errors.push(`invalid value "${w}" for custom field "${name}"`);
+      }
+      filters.push(apiFilter(key, "=", ids));
+      continue;
+    }
+    const allowed = options(schemas[key]);
+    if (!allowed.length) {
+      // free-form fields: exact match for numbers/dates/booleans, substring match for text
+      const exact = wanted.every((w) => /^(-?\d+(\.\d+)?|[0-9]{4}-[0-9]{2}-[0-9]{2}|true|false)$/.test(w));
+      filters.push(apiFilter(key, exact ? "=" : "~", exact ? wanted.map((w) => (w === "true" ? "t" : w === "false" ? "f" : w)) : wanted));
+      continue;
+    }
+    const ids: string[] = [];
+    for (const w of wanted) {
+      const lower = w.toLowerCase();
+      const found = allowed.find((a: any) => String(a.title ?? "").toLowerCase() === lower || idFromHref(a.href) === w);
+      if (found) ids.push(idFromHref(found.href) as string);
+      else errors.push(`invalid value "${w}" for custom field "${name}"`);
+    }
+    filters.push(apiFilter(key, "=", ids));
+  }
+  return { filters, errors };
+}
+
+/**
+ * Validate a work package payload against an OpenProject /form endpoint without committing it.
+ * Returns the validation errors keyed by field and, for invalid link fields, the allowed values
+ * (titles and hrefs, capped to keep the result agent-readable).
+ */
+export async function validateWithForm(api: AxiosInstance, formPath: string, payload: any) {
+  const r = await api.post(formPath, payload);
+  const embedded = r.data?._embedded ?? {};
+  const schema = embedded.schema ?? {};
+  const errors: { field: string; message: string; allowedValues?: { title: string; href: string }[] }[] = [];
+  for (const [field, err] of Object.entries<any>(embedded.validationErrors ?? {})) {
+    const messages =
+      err?._type === "MultipleErrors" ? (err._embedded?.errors ?? []).map((e: any) => e.message) : [err?.message];
+    const entry: (typeof errors)[number] = { field, message: messages.filter(Boolean).join(" ") || "invalid" };
+    if (payload?._links && field in payload._links) {
+      const allowed = allowedValuesOf(schema[field]).slice(0, 25);
+      if (allowed.length) entry.allowedValues = allowed.map((a: any) => ({ title: a.title, href: a.href }));
+    }
+    errors.push(entry);
+  }
+  return { valid: errors.length === 0, errors, payload: embedded.payload ?? null };
+}
+
+/**
+ * Render a validateWithForm result as a short CallToolResult.
+ */
+export function validationResult(result: Awaited<ReturnType<typeof validateWithForm>>, label: string): CallToolResult {
+  if (result.valid) {
+    return {
+      content: [
+        { type: "text", text: `VALID: ${label} would be accepted (nothing was saved)` },
+        { type: "text", text: JSON.stringify({ valid: true }) },
+      ],
+    };
+  }
+  const summary = result.errors.map((e) => `${e.field}: ${e.message}`).join("; ");
+  return {
+    content: [
+      { type: "text", text: `INVALID: ${label} - ${summary}` },
+      { type: "text", text: JSON.stringify({ valid: false, errors: result.errors }) },
+    ],
+  };
+}
+
 /**
  * Guard an upload request: whitelist apiPath pattern, enforce size caps (base64 length)
  * and optional MIME checks. Returns null on success or a digestible error result.
@@ -342,7 +1127,6 @@ export function guardUpload(apiPath: string, contentBase64: string, contentType?
  * Compute optional SHA256 checksum (hex) of Buffer data. Returns hex string.
  */
 export function sha256Hex(buffer: Buffer) {
-  const crypto = require("crypto");
   return crypto.createHash("sha256").update(buffer).digest("hex");
 }
 
@@ -1,11 +1,14 @@
 import { startServer } from "./server.js";
-import { logger } from "./logger.js";
+import { startStdio } from "./stdio.js";
+import { logger, isStdioMode } from "./logger.js";
 
 const PORT = process.env.PORT ? parseInt(process.env.PORT, 10) : 8000;
 
 (async () => {
   try {
-    const { port, stop } = await startServer(PORT);
+    const { port, stop } = isStdioMode
+      ? { port: null, ...(await startStdio()) }
+      : await startServer(PORT);
 
     const shutdown = async (signal?: string) => {
       logger.info({ signal }, "Received shutdown signal, stopping server");
@@ -30,7 +33,7 @@ const PORT = process.env.PORT ? parseInt(process.env.PORT, 10) : 8000;
       process.exit(1);
     });
 
-    logger.info({ port }, "MCP server running");
+    if (port !== null) logger.info({ port }, "MCP server running");
   } catch (err) {
     logger.error({ err }, "Failed to start MCP server");
     process.exit(1);
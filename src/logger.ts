@@ -2,14 +2,25 @@ import pino from "pino";
 
 const level = process.env.LOG_LEVEL || "info";
 
+/**
+ * True when the process serves MCP over stdio (`--stdio` or MCP_TRANSPORT=stdio).
+ * stdout then carries the protocol stream, so logs must go to stderr.
+ */
+export const isStdioMode = process.argv.includes("--stdio") || process.env.MCP_TRANSPORT === "stdio";
+
+const destination = isStdioMode ? 2 : 1;
+
 /**
  * Cast to any to avoid TypeScript callable signature issues with different ESM/CommonJS interop.
  * This keeps runtime behaviour (pino factory call) while silencing the TS error.
  */
-export const logger = (pino as any)({
-  level,
-  transport:
-    process.env.NODE_ENV === "development"
-      ? { target: "pino-pretty", options: { colorize: true } }
-      : undefined,
-});
+export const logger = (pino as any)(
+  {
+    level,
+    transport:
+      process.env.NODE_ENV === "development"
+        ? { target: "pino-pretty", options: { colorize: true, destination } }
+        : undefined,
+  },
+  process.env.NODE_ENV === "development" ? undefined : (pino as any).destination(destination)
+);
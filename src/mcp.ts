@@ -1,5 +1,5 @@
-import { z } from "zod";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z, type ZodRawShape } from "zod";
+import { McpServer, ResourceTemplate, type ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
 import {
   CallToolResult,
   GetPromptResult,
@@ -11,30 +11,120 @@ import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/proto
 import {
   withOpenProject,
   missingConfigResult,
+  missingConfigMessage,
   getErrorMessage,
   isNotFoundError,
   pageSizeSchema,
   offsetSchema,
   safeTruncate,
-  resolveByName,
   guardUpload,
   sha256Hex,
   patchWithConflictRetry,
+  resolveTimeEntryActivity,
+  toIsoDuration,
+  isoDurationToHours,
+  resolveIdByName,
+  idFromHref,
+  apiFilter,
+  statusFilter,
+  filtersParam,
+  collectionPaging,
+  type ApiFilter,
+  linkFilterCollections,
+  principalFilterFields,
+  toQueryFilter,
+  getOpenProjectApi,
+  getCredentialId,
+  projectReadable,
+  resolvePrincipal,
+  getWorkPackageSchema,
+  applyCustomFields,
+  customFieldFilters,
+  resolveWorkPackageLink,
+  diffWorkPackage,
+  validateWithForm,
+  validationResult,
+  contextConfig,
+  buildWorkPackageUpdate,
+  addWorkPackageComment,
 } from "./helpers.js";
 import { logger } from "./logger.js";
+import { getWebhookEventStore } from "./events.js";
+import { enableResourceSubscriptions, workPackageUri, projectUri } from "./subscriptions.js";
+import { listRules, recentRuleFirings } from "./rules.js";
+import { instrumentToolCall } from "./metrics.js";
+import {
+  assertResourcePermitted,
+  guardToolCall,
+  isMutatingTool,
+  policyFromEnv,
+  projectScopeFilter,
+  type Policy,
+  toolPermitted,
+} from "./policy.js";
+import { auditToolCall, getAuditLog } from "./audit.js";
+import {
+  bulkConfirmThreshold,
+  confirmDestructive,
+  confirmationRequired,
+  previewProjectDeletion,
+  previewRelationDeletion,
+  previewTimeEntryDeletion,
+  previewVersionDeletion,
+  previewWorkPackageDeletion,
+} from "./confirmations.js";
 
 type ToolContext = RequestHandlerExtra<ServerRequest, ServerNotification> & {
   config?: Record<string, string | undefined>;
 };
 
-export const setupMCPServer = (): McpServer => {
+type ToolHandler = (params: any, context: ToolContext) => Promise<CallToolResult>;
+
+/**
+ * Build the MCP server. `clientPolicy` is the policy of the client the server is built for (a
+ * stateful session); tools it or the env policy rules out are not listed to that client.
+ */
+export const setupMCPServer = (clientPolicy?: Policy): McpServer => {
   const server = new McpServer(
     {
-      name: "stateless-server",
+      name: "mcp-openproject",
       version: "1.0.0",
     },
-    { capabilities: { logging: {} } }
+    { capabilities: { logging: {}, resources: { subscribe: true } } }
   );
+  enableResourceSubscriptions(server);
+
+  /**
+   * Register a tool behind the deployment's guards. Tools the env or client policy rules out are
+   * not registered at all; calls of the others are instrumented (metrics), audited when mutating
+   * (policy rejections included) and checked against the policies.
+   */
+  const policy = policyFromEnv();
+  const registerTool = (name: string, description: string, shape: ZodRawShape, handler: ToolHandler) => {
+    if (!toolPermitted(policy, name) || (clientPolicy && !toolPermitted(clientPolicy, name))) {
+      logger.debug({ tool: name }, "Tool hidden by policy");
+      return;
+    }
+    const audited = isMutatingTool(name) && !!getAuditLog();
+    // a concrete callback type keeps server.tool's overload resolution shallow (no TS2589)
+    const callback: ToolCallback<typeof shape> = (params, context) =>
+      instrumentToolCall(name, () => {
+        const guarded = () => guardToolCall(policy, name, params, context, () => handler(params, context));
+        return audited ? auditToolCall(name, params, context, guarded) : guarded();
+      });
+    server.tool(name, description, shape, callback);
+  };
+
+  const conciseTask = (w: any) => ({
+    id: w.id,
+    subject: w.subject,
+    startDate: w.startDate ?? null,
+    dueDate: w.dueDate ?? null,
+    status: w._links?.status?.title ?? null,
+    assignee: w._links?.assignee?.title ?? null,
+    priority: w._links?.priority?.title ?? null,
+    project: w._links?.project?.title ?? null,
+  });
 
   // Prompt template
   server.prompt(
@@ -59,7 +149,7 @@ export const setupMCPServer = (): McpServer => {
   );
 
   // Notification stream test tool
-  server.tool(
+  registerTool(
     "start-notification-stream",
     "Starts sending periodic notifications for testing resumability",
     {
@@ -103,25 +193,8 @@ export const setupMCPServer = (): McpServer => {
     }
   );
 
-  // Greeting resource
-  server.resource(
-    "greeting-resource",
-    "https://example.com/greetings/default",
-    { mimeType: "text/plain" },
-    async (): Promise<ReadResourceResult> => {
-      return {
-        contents: [
-          {
-            uri: "https://example.com/greetings/default",
-            text: "Hello, world!",
-          },
-        ],
-      };
-    }
-  );
-
   // --- OpenProject tools (use withOpenProject to remove repetition) ---
-  server.tool(
+  registerTool(
     "openproject-list-users",
     "Lists users (concise). Returns nextOffset when truncated.",
     {
@@ -158,7 +231,7 @@ export const setupMCPServer = (): McpServer => {
     })
   );
 
-  server.tool(
+  registerTool(
     "openproject-create-project",
     "Creates a new project in OpenProject",
     {
@@ -185,7 +258,7 @@ export const setupMCPServer = (): McpServer => {
     })
   );
 
-  server.tool(
+  registerTool(
     "openproject-create-task",
     "Creates a new task (work package) in an OpenProject project. Supports optional parentId/parentIdentifier to create a sub-task.",
     {
@@ -196,16 +269,22 @@ export const setupMCPServer = (): McpServer => {
       startDate: z.string().regex(/^[0-9]{4}-[0-9]{2}-[0-9]{2}$/, "Date must be YYYY-MM-DD").optional().describe("Start date in YYYY-MM-DD format"),
       dueDate: z.string().regex(/^[0-9]{4}-[0-9]{2}-[0-9]{2}$/, "Date must be YYYY-MM-DD").optional().describe("Due date in YYYY-MM-DD format"),
       parentId: z.string().optional().describe("Optional parent work package ID or identifier (to create a sub-task)"),
+      customFields: z
+        .record(z.any())
+        .optional()
+        .describe("Custom field values keyed by field name, e.g. {\"Severity\": \"Critical\", \"Customer\": \"ACME\"}"),
+      validateOnly: z.boolean().optional().default(false).describe("If true, only validate via the form endpoint and report errors/allowed values; nothing is created"),
       idempotencyKey: z.string().optional().describe("Optional Idempotency-Key header"),
     },
     withOpenProject(async (api, params: any) => {
-      let { projectId, subject, description, type, startDate, dueDate, parentId, idempotencyKey } = params;
+      let { projectId, subject, description, type, startDate, dueDate, parentId, customFields, validateOnly, idempotencyKey } = params;
 
       // Resolve projectId that might be an identifier string
       let projectNumericId = projectId;
       try {
         // try direct get first (works if numeric id or identifier supported)
-        await api.get(`/projects/${projectId}`);
+        const pResp = await api.get(`/projects/${projectId}`);
+        projectNumericId = pResp.data?.id ?? projectId;
       } catch (err) {
         // fallback: try to find by identifier in project list
         try {
@@ -261,6 +340,19 @@ export const setupMCPServer = (): McpServer => {
         }
       }
 
+      if (customFields && Object.keys(customFields).length) {
+        const schema = await getWorkPackageSchema(api, { projectId: projectNumericId, typeId: idFromHref(type) ?? undefined });
+        const errors = await applyCustomFields(api, schema, customFields, payload);
+        if (errors.length) {
+          return { content: [{ type: "text", text: `ERROR: ${errors.join("; ")}` }] };
+        }
+      }
+
+      if (validateOnly) {
+        const result = await validateWithForm(api, `/projects/${projectNumericId}/work_packages/form`, payload);
+        return validationResult(result, `task "${subject}"`);
+      }
+
       const config: any = { headers: {} };
       if (idempotencyKey) config.headers["Idempotency-Key"] = idempotencyKey;
 
@@ -279,7 +371,7 @@ export const setupMCPServer = (): McpServer => {
     })
   );
 
-  server.tool(
+  registerTool(
     "openproject-get-project",
     "Gets a specific project by its ID from OpenProject",
     {
@@ -297,48 +389,59 @@ export const setupMCPServer = (): McpServer => {
     })
   );
 
-  server.tool(
+  registerTool(
     "openproject-list-projects",
     "Lists all projects in OpenProject",
     {
       pageSize: z.number().optional().describe("Number of projects per page"),
       offset: z.number().optional().describe("Page number to retrieve (1-indexed)"),
     },
-    withOpenProject(async (api, params: any) => {
+    withOpenProject(async (api, params: any, context?: ToolContext) => {
       const { pageSize, offset } = params;
       const qparams: any = {};
       if (pageSize) qparams.pageSize = pageSize;
       if (offset) qparams.offset = offset;
       const response = await api.get("/projects", { params: qparams });
-      const count = response.data?._embedded?.elements?.length ?? 0;
-      const total = response.data?.total ?? "unknown";
+      const elements = response.data?._embedded?.elements ?? [];
+      // under a project scope only the allowed projects of the page are returned
+      const inScope = projectScopeFilter(context);
+      const listed: any[] = [];
+      for (const p of elements) if (await inScope(String(p.id))) listed.push(p);
+      const filtered = listed.length < elements.length;
+      const data = filtered
+        ? { ...response.data, count: listed.length, _embedded: { ...response.data._embedded, elements: listed } }
+        : response.data;
+      const count = listed.length;
+      const total = filtered ? "unknown" : (response.data?.total ?? "unknown");
       return {
         content: [
           {
             type: "text",
             text: `Successfully retrieved ${count} projects (Total: ${total})`,
           },
-          { type: "text", text: JSON.stringify(response.data) },
+          { type: "text", text: JSON.stringify(data) },
         ],
       };
     })
   );
 
   // Variant: iterate internally and return a compact array of projects only
-  server.tool(
+  registerTool(
     "openproject-list-projects-all",
     "Lists all projects (compact) by iterating pages internally and returning a concise array",
     {
       pageSize: pageSizeSchema.optional().describe("Page size for internal paging (max 100)"),
     },
-    withOpenProject(async (api, params: any) => {
+    withOpenProject(async (api, params: any, context?: ToolContext) => {
       const per = params?.pageSize ?? 100;
+      const inScope = projectScopeFilter(context);
       let offset = 1;
       const all: any[] = [];
       while (true) {
         const resp = await api.get("/projects", { params: { pageSize: per, offset } });
         const els = resp.data?._embedded?.elements ?? [];
         for (const p of els) {
+          if (!(await inScope(String(p.id)))) continue;
           all.push({
             id: p.id,
             name: p.name,
@@ -359,7 +462,7 @@ export const setupMCPServer = (): McpServer => {
   );
 
   // Health check tool: verifies URL and auth by calling /users/me
-  server.tool(
+  registerTool(
     "openproject-health",
     "Checks OpenProject URL and authentication (/users/me)",
     {},
@@ -380,7 +483,7 @@ export const setupMCPServer = (): McpServer => {
     })
   );
 
-  server.tool(
+  registerTool(
     "openproject-get-task",
     "Gets a specific task (work package) by its ID from OpenProject",
     {
@@ -398,7 +501,7 @@ export const setupMCPServer = (): McpServer => {
     })
   );
 
-server.tool(
+  registerTool(
     "openproject-list-tasks",
     "Lists tasks (concise). Default concise mapping; set full=true to return full payload. Returns nextOffset when truncated.",
     {
@@ -407,14 +510,20 @@ server.tool(
       offset: offsetSchema.optional().describe("Page number to retrieve (1-indexed)"),
       full: z.boolean().optional().default(false).describe("Return full payload if true"),
     },
-    withOpenProject(async (api, { projectId, pageSize = 25, offset = 1, full = false }: any) => {
+    withOpenProject(async (api, { projectId, pageSize = 25, offset = 1, full = false }: any, context?: ToolContext) => {
       const url = projectId ? `/projects/${projectId}/work_packages` : `/work_packages`;
       const resp = await api.get(url, { params: { pageSize, offset } });
-      const els = resp.data?._embedded?.elements ?? [];
+      const page = resp.data?._embedded?.elements ?? [];
+      // without projectId, a project-scoped client only sees the work packages of allowed projects
+      const inScope = projectScopeFilter(context);
+      const els: any[] = [];
+      for (const w of page) {
+        if (projectId || (await inScope(idFromHref(w._links?.project?.href)))) els.push(w);
+      }
 
       // If full requested, return the original elements and nextOffset
       if (full) {
-        const nextOffset = els.length < pageSize ? null : offset + 1;
+        const nextOffset = page.length < pageSize ? null : offset + 1;
         return {
           content: [
             { type: "text", text: `Tasks: ${els.length} (page=${offset}, size=${pageSize}) nextOffset=${nextOffset ?? "none"}` },
@@ -423,17 +532,8 @@ server.tool(
         };
       }
 
-      const concise = els.map((w: any) => ({
-        id: w.id,
-        subject: w.subject,
-        startDate: w.startDate ?? null,
-        dueDate: w.dueDate ?? null,
-        status: w._links?.status?.title ?? null,
-        assignee: w._links?.assignee?.title ?? null,
-        priority: w._links?.priority?.title ?? null,
-        project: w._links?.project?.title ?? null,
-      }));
-      const nextOffset = concise.length < pageSize ? null : offset + 1;
+      const concise = els.map(conciseTask);
+      const nextOffset = page.length < pageSize ? null : offset + 1;
       return {
         content: [
           { type: "text", text: `Tasks: ${concise.length} (page=${offset}, size=${pageSize}) nextOffset=${nextOffset ?? "none"}` },
@@ -443,7 +543,7 @@ server.tool(
     })
   );
 
-  server.tool(
+  registerTool(
     "openproject-update-project",
     "Updates an existing project in OpenProject. Only include fields to be changed.",
     {
@@ -477,22 +577,41 @@ server.tool(
     })
   );
 
-  server.tool(
+  registerTool(
     "openproject-update-task",
-    "Updates an existing task (work package) in OpenProject. Only include fields to be changed.",
+    "Updates an existing task (work package) in OpenProject. Only include fields to be changed; use null to clear a field. Names (status, assignee, type, ...) are resolved to IDs. Reports a field-by-field diff of what changed.",
     {
       taskId: z.string().describe("The ID of the task to update"),
-      lockVersion: z.number().optional().describe("The lockVersion of the task (obtained from a GET request)"),
+      lockVersion: z.number().optional().describe("The lockVersion of the task (defaults to the current one)"),
       subject: z.string().optional().describe("New subject/title for the task"),
       description: z.string().optional().describe("New description for the task (provide as raw text)"),
+      status: z.string().optional().describe("Status name or ID"),
+      assignee: z.string().nullable().optional().describe("Assignee login, name, email, ID or \"me\""),
+      responsible: z.string().nullable().optional().describe("Accountable user login, name, email, ID or \"me\""),
+      priority: z.string().optional().describe("Priority name or ID"),
+      type: z.string().optional().describe("Type name or ID"),
+      version: z.string().nullable().optional().describe("Version name or ID"),
+      category: z.string().nullable().optional().describe("Category name or ID"),
+      startDate: z.string().regex(/^[0-9]{4}-[0-9]{2}-[0-9]{2}$/, "Date must be YYYY-MM-DD").nullable().optional().describe("Start date in YYYY-MM-DD format"),
+      dueDate: z.string().regex(/^[0-9]{4}-[0-9]{2}-[0-9]{2}$/, "Date must be YYYY-MM-DD").nullable().optional().describe("Due date in YYYY-MM-DD format"),
+      estimatedTime: z.union([z.number(), z.string()]).nullable().optional().describe("Estimated work, e.g. 8, 1.5 or \"2h30m\""),
+      percentageDone: z.number().int().min(0).max(100).nullable().optional().describe("% complete (0-100)"),
+      parent: z.string().nullable().optional().describe("Parent work package ID"),
+      customFields: z
+        .record(z.any())
+        .optional()
+        .describe("Custom field values keyed by field name; use null to clear a field"),
+      validateOnly: z.boolean().optional().default(false).describe("If true, only validate via the form endpoint and report errors/allowed values; nothing is changed"),
       idempotencyKey: z.string().optional().describe("Optional Idempotency-Key header"),
     },
     withOpenProject(async (api, params: any) => {
-      const { taskId, lockVersion, subject, description, idempotencyKey } = params;
-      const updatePayload: any = {};
-      if (lockVersion !== undefined) updatePayload.lockVersion = lockVersion;
-      if (subject) updatePayload.subject = subject;
-      if (description) updatePayload.description = { raw: description };
+      const { taskId, lockVersion, validateOnly, idempotencyKey } = params;
+      const current = await api.get(`/work_packages/${taskId}`);
+
+      const { payload: updatePayload, errors } = await buildWorkPackageUpdate(api, current.data, params);
+      if (errors.length) {
+        return { content: [{ type: "text", text: `ERROR: ${errors.join("; ")}` }] };
+      }
 
       if (Object.keys(updatePayload).length === 0) {
         return {
@@ -504,31 +623,52 @@ server.tool(
           ],
         };
       }
+      updatePayload.lockVersion = lockVersion ?? current.data?.lockVersion;
+
+      if (validateOnly) {
+        const result = await validateWithForm(api, `/work_packages/${taskId}/form`, updatePayload);
+        return validationResult(result, `update of task ${taskId}`);
+      }
 
       const config: any = { headers: {} };
       if (idempotencyKey) config.headers["Idempotency-Key"] = idempotencyKey;
 
       // Use patchWithConflictRetry to handle 409 lockVersion automatically
       const resp = await patchWithConflictRetry(api, `/work_packages/${taskId}`, `/work_packages/${taskId}`, updatePayload, config);
+      const changes = diffWorkPackage(current.data, resp.data);
+      const summary = changes.length
+        ? changes.map((c) => `${c.field}: ${c.from ?? "none"} -> ${c.to ?? "none"}`).join("; ")
+        : "no changes";
       return {
         content: [
-          { type: "text", text: `Successfully updated task: ${resp.data?.subject ?? "<unknown>"}` },
+          { type: "text", text: `Successfully updated task: ${resp.data?.subject ?? "<unknown>"} (${summary})` },
+          { type: "text", text: JSON.stringify({ changes }) },
           { type: "text", text: JSON.stringify(resp.data) },
         ],
       };
     })
   );
 
-  server.tool(
+  registerTool(
     "openproject-delete-project",
-    "Deletes a project from OpenProject. This action is irreversible.",
+    "Deletes a project from OpenProject. This action is irreversible. Two-phase: the first call returns a preview and a short-lived confirmationToken (or asks the user directly where the client supports elicitation); call again with the token to delete.",
     {
       projectId: z.string().describe("The ID of the project to delete"),
       idempotencyKey: z.string().optional().describe("Optional Idempotency-Key header"),
+      confirmationToken: z.string().optional().describe("Token from the preview returned by the first call"),
     },
-    withOpenProject(async (api, params: any) => {
-      const { projectId, idempotencyKey } = params;
+    withOpenProject(async (api, params: any, context?: ToolContext) => {
+      const { projectId, idempotencyKey, confirmationToken } = params;
       try {
+        if (confirmationRequired()) {
+          const unconfirmed = await confirmDestructive(server.server, api, context, {
+            tool: "openproject-delete-project",
+            target: projectId,
+            token: confirmationToken,
+            preview: () => previewProjectDeletion(api, projectId),
+          });
+          if (unconfirmed) return unconfirmed;
+        }
         const config: any = {};
         if (idempotencyKey) config.headers = { "Idempotency-Key": idempotencyKey };
         await api.delete(`/projects/${projectId}`, config);
@@ -551,16 +691,26 @@ server.tool(
     })
   );
 
-  server.tool(
+  registerTool(
     "openproject-delete-task",
-    "Deletes a task (work package) from OpenProject. This action is irreversible.",
+    "Deletes a task (work package) from OpenProject. This action is irreversible. Two-phase: the first call returns a preview and a short-lived confirmationToken (or asks the user directly where the client supports elicitation); call again with the token to delete.",
     {
       taskId: z.string().describe("The ID of the task to delete"),
       idempotencyKey: z.string().optional().describe("Optional Idempotency-Key header"),
+      confirmationToken: z.string().optional().describe("Token from the preview returned by the first call"),
     },
-    withOpenProject(async (api, params: any) => {
-      const { taskId, idempotencyKey } = params;
+    withOpenProject(async (api, params: any, context?: ToolContext) => {
+      const { taskId, idempotencyKey, confirmationToken } = params;
       try {
+        if (confirmationRequired()) {
+          const unconfirmed = await confirmDestructive(server.server, api, context, {
+            tool: "openproject-delete-task",
+            target: taskId,
+            token: confirmationToken,
+            preview: () => previewWorkPackageDeletion(api, taskId),
+          });
+          if (unconfirmed) return unconfirmed;
+        }
         const config: any = {};
         if (idempotencyKey) config.headers = { "Idempotency-Key": idempotencyKey };
         await api.delete(`/work_packages/${taskId}`, config);
@@ -584,7 +734,7 @@ server.tool(
   );
 
   // --- Attachments tools ---
-  server.tool(
+  registerTool(
     "openproject-upload-attachment",
     "Uploads an attachment to an OpenProject resource. Provide `apiPath`, `filename`, and `contentBase64`. Optional checksumSha256 to verify.",
     {
@@ -633,7 +783,7 @@ server.tool(
     })
   );
 
-  server.tool(
+  registerTool(
     "openproject-download-attachment",
     "Downloads an attachment from OpenProject as base64. Provide `attachmentPath` (full API path).",
     {
@@ -661,62 +811,150 @@ server.tool(
   );
 
   // --- Search tasks ---
-  server.tool(
+  registerTool(
     "openproject-search-tasks",
-    "Search tasks with simple filters (status, assignee, dueBefore, text). Returns concise items + nextOffset.",
+    "Search tasks with server-side filters (status, state, assignee, type, priority, due dates, text, custom fields) and sorting. Names are resolved to IDs. Returns concise items, total and nextOffset.",
     {
       projectId: z.string().optional().describe("Optional project ID to scope search"),
-      status: z.string().optional().describe("Status title to filter by"),
-      assignee: z.string().optional().describe("Assignee name to filter by"),
-      dueBefore: z.string().regex(/^[0-9]{4}-[0-9]{2}-[0-9]{2}$/, "Date must be YYYY-MM-DD").optional().describe("Date must be YYYY-MM-DD"),
-      text: z.string().optional().describe("Substring to match in subject/description"),
+      status: z.union([z.string(), z.array(z.string())]).optional().describe("Status name(s) or ID(s) to include"),
+      excludeStatus: z.union([z.string(), z.array(z.string())]).optional().describe("Status name(s) or ID(s) to exclude"),
+      state: z.enum(["open", "closed", "all"]).optional().describe("Open, closed or all work packages (default open unless status is given)"),
+      assignee: z.string().optional().describe("Assignee name, ID, or \"me\""),
+      type: z.string().optional().describe("Type name or ID (e.g. Bug)"),
+      priority: z.string().optional().describe("Priority name or ID"),
+      dueBefore: z.string().regex(/^[0-9]{4}-[0-9]{2}-[0-9]{2}$/, "Date must be YYYY-MM-DD").optional().describe("Due strictly before this date (YYYY-MM-DD)"),
+      dueAfter: z.string().regex(/^[0-9]{4}-[0-9]{2}-[0-9]{2}$/, "Date must be YYYY-MM-DD").optional().describe("Due on or after this date (YYYY-MM-DD)"),
+      text: z.string().optional().describe("Full-text search in subject/description"),
+      subjectContains: z.string().optional().describe("Substring the subject must contain"),
+      customFields: z
+        .record(z.union([z.string(), z.array(z.string())]))
+        .optional()
+        .describe("Custom field filters keyed by field name, e.g. {\"Severity\": \"Critical\"}; user fields take logins, names or \"me\", version fields names"),
+      sortBy: z
+        .array(z.string().regex(/^[A-Za-z_]+(:(asc|desc))?$/, "Use field or field:asc|desc"))
+        .optional()
+        .describe("Sort criteria, e.g. [\"dueDate:asc\", \"id:desc\"]"),
       pageSize: pageSizeSchema.optional(),
       offset: offsetSchema.optional(),
     },
-    withOpenProject(async (api, { projectId, status, assignee, dueBefore, text, pageSize = 25, offset = 1 }: any) => {
-      const url = projectId ? `/projects/${projectId}/work_packages` : `/work_packages`;
-      const resp = await api.get(url, { params: { pageSize, offset } });
-      const els = resp.data?._embedded?.elements ?? [];
+    withOpenProject(async (api, params: any) => {
+      const {
+        projectId,
+        status,
+        excludeStatus,
+        state,
+        assignee,
+        type,
+        priority,
+        dueBefore,
+        dueAfter,
+        text,
+        subjectContains,
+        customFields,
+        sortBy,
+        pageSize = 25,
+        offset = 1,
+      } = params;
 
-      // Client-side simple filters
-      const filtered = els.filter((w: any) => {
-        if (status && String(w._links?.status?.title ?? "").toLowerCase() !== String(status).toLowerCase()) return false;
-        if (assignee && String(w._links?.assignee?.title ?? "").toLowerCase() !== String(assignee).toLowerCase()) return false;
-        if (dueBefore && w.dueDate) {
-          if (w.dueDate >= dueBefore) return false;
+      const filters: ApiFilter[] = [];
+      const unresolved: string[] = [];
+      const resolveAll = async (path: string, names: string | string[]) => {
+        const ids: string[] = [];
+        for (const name of Array.isArray(names) ? names : [names]) {
+          const id = await resolveIdByName(api, path, name);
+          if (id) ids.push(id);
+          else unresolved.push(name);
         }
-        if (text) {
-          const hay = `${w.subject ?? ""} ${(w.description?.raw) ?? ""}`.toLowerCase();
-          if (!hay.includes(String(text).toLowerCase())) return false;
+        return ids;
+      };
+
+      const include = status ? await resolveAll("/statuses", status) : null;
+      const exclude = excludeStatus ? await resolveAll("/statuses", excludeStatus) : null;
+      // like OpenProject itself, default to open work packages unless a status filter is given
+      const effectiveState = state ?? (status || excludeStatus ? "all" : "open");
+      // a state combined with status IDs is resolved against the statuses' isClosed flags
+      const statuses =
+        (include || exclude) && effectiveState !== "all"
+          ? ((await api.get("/statuses")).data?._embedded?.elements ?? []).map((s: any) => ({
+              id: String(s.id),
+              isClosed: !!s.isClosed,
+            }))
+          : [];
+      const byStatus = statusFilter(include, exclude, effectiveState, statuses);
+      if (byStatus) filters.push(byStatus);
+      if (assignee) {
+        // /principals is readable without admin rights and matches logins, names and emails
+        const principal = assignee === "me" ? { id: "me" } : await resolvePrincipal(api, assignee);
+        if (principal) filters.push(apiFilter("assignee", "=", [principal.id]));
+        else unresolved.push(assignee);
+      }
+      if (type) filters.push(apiFilter("type", "=", await resolveAll("/types", type)));
+      if (priority) filters.push(apiFilter("priority", "=", await resolveAll("/priorities", priority)));
+      if (dueBefore || dueAfter) {
+        // <>d is inclusive on both ends; dueBefore keeps its exclusive meaning
+        let upper = "";
+        if (dueBefore) {
+          const d = new Date(`${dueBefore}T00:00:00Z`);
+          d.setUTCDate(d.getUTCDate() - 1);
+          upper = d.toISOString().slice(0, 10);
         }
-        return true;
-      });
+        filters.push(apiFilter("dueDate", "<>d", [dueAfter ?? "", upper]));
+      }
+      if (text) filters.push(apiFilter("search", "**", [text]));
+      if (subjectContains) filters.push(apiFilter("subject", "~", [subjectContains]));
+      if (customFields && Object.keys(customFields).length) {
+        const cf = await customFieldFilters(api, customFields, projectId);
+        filters.push(...cf.filters);
+        unresolved.push(...cf.errors);
+      }
 
-      const concise = filtered.map((w: any) => ({
-        id: w.id,
-        subject: w.subject,
-        startDate: w.startDate ?? null,
-        dueDate: w.dueDate ?? null,
-        status: w._links?.status?.title ?? null,
-        assignee: w._links?.assignee?.title ?? null,
-        priority: w._links?.priority?.title ?? null,
-        project: w._links?.project?.title ?? null,
-      }));
+      if (unresolved.length) {
+        return { content: [{ type: "text", text: `ERROR: could not resolve: ${unresolved.join(", ")}` }] };
+      }
+      // the status conditions exclude each other (e.g. a closed status with state "open")
+      if (byStatus && byStatus.status.operator === "=" && !byStatus.status.values.length) {
+        return {
+          content: [
+            { type: "text", text: `Tasks: 0 of 0 (page=${offset}, size=${pageSize}) nextOffset=none` },
+            { type: "text", text: JSON.stringify({ items: [], total: 0, nextOffset: null }) },
+          ],
+        };
+      }
 
-      const nextOffset = concise.length < pageSize ? null : offset + 1;
+      const qparams: any = { pageSize, offset };
+      // an explicit empty filter list disables OpenProject's default "open only" filter
+      qparams.filters = filtersParam(filters) ?? "[]";
+      if (sortBy?.length) {
+        qparams.sortBy = JSON.stringify(
+          sortBy.map((s: string) => {
+            const [field, direction = "asc"] = s.split(":");
+            return [field, direction];
+          })
+        );
+      }
+
+      const url = projectId ? `/projects/${projectId}/work_packages` : `/work_packages`;
+      const resp = await api.get(url, { params: qparams });
+      const els = resp.data?._embedded?.elements ?? [];
+      const { total, nextOffset } = collectionPaging(resp.data, offset, pageSize);
+
+      const concise = els.map(conciseTask);
       return {
         content: [
-          { type: "text", text: `Tasks: ${concise.length} (page=${offset}, size=${pageSize}) nextOffset=${nextOffset ?? "none"}` },
-          { type: "text", text: JSON.stringify({ items: concise, nextOffset }) },
+          {
+            type: "text",
+            text: `Tasks: ${concise.length} of ${total ?? "unknown"} (page=${offset}, size=${pageSize}) nextOffset=${nextOffset ?? "none"}`,
+          },
+          { type: "text", text: JSON.stringify({ items: concise, total, nextOffset }) },
         ],
       };
     })
   );
 
   // --- Bulk update tasks ---
-  server.tool(
+  registerTool(
     "openproject-bulk-update-tasks",
-    "Bulk update tasks. ops: [{id, lockVersion?, subject?, description?, statusName?, assigneeName?}]",
+    "Bulk update tasks. ops: [{id, lockVersion?, subject?, description?, statusName?, assigneeName?, customFields?}]. Large batches are two-phase: the first call returns a preview and a confirmationToken; call again with the same ops and the token.",
     {
       ops: z.array(z.object({
         id: z.number().optional(),
@@ -725,11 +963,30 @@ server.tool(
         description: z.string().optional(),
         statusName: z.string().optional(),
         assigneeName: z.string().optional(),
+        customFields: z.record(z.any()).optional(),
       })).describe("Array of operations"),
+      confirmationToken: z.string().optional().describe("Token from the preview (required above the bulk confirmation threshold)"),
     },
-    withOpenProject(async (api, params: any) => {
-      const { ops } = params;
+    withOpenProject(async (api, params: any, context?: ToolContext) => {
+      const { ops, confirmationToken } = params;
+      if (confirmationRequired() && ops.length > bulkConfirmThreshold()) {
+        const unconfirmed = await confirmDestructive(server.server, api, context, {
+          tool: "openproject-bulk-update-tasks",
+          target: ops,
+          token: confirmationToken,
+          preview: async () => ({
+            summary: `Update ${ops.length} work packages`,
+            details: {
+              items: ops.length,
+              ids: ops.map((op: any) => op.id ?? null),
+              fields: [...new Set(ops.flatMap((op: any) => Object.keys(op).filter((k) => k !== "id" && k !== "lockVersion")))],
+            },
+          }),
+        });
+        if (unconfirmed) return unconfirmed;
+      }
       const results: any[] = [];
+      const schemaCache = new Map<string, any>();
       for (const op of ops) {
         try {
           const payload: any = {};
@@ -739,18 +996,34 @@ server.tool(
 
           // Resolve statusName and assigneeName -> _links
           if (op.statusName) {
-            const href = await resolveByName(api, "/statuses", op.statusName);
-            if (href) payload._links = payload._links || {}; payload._links.status = { href };
+            const link = await resolveWorkPackageLink(api, "status", op.statusName);
+            if (link) {
+              payload._links = payload._links || {};
+              payload._links.status = link;
+            }
           }
           if (op.assigneeName) {
-            const href = await resolveByName(api, "/users", op.assigneeName);
-            if (href) payload._links = payload._links || {}; payload._links.assignee = { href };
+            const link = await resolveWorkPackageLink(api, "assignee", op.assigneeName);
+            if (link) {
+              payload._links = payload._links || {};
+              payload._links.assignee = link;
+            }
           }
 
           if (!op.id) {
             results.push({ op, error: "no id provided" });
             continue;
           }
+          if (op.customFields && Object.keys(op.customFields).length) {
+            const current = await api.get(`/work_packages/${op.id}`);
+            const schema = await getWorkPackageSchema(api, { workPackage: current.data }, schemaCache);
+            const errors = await applyCustomFields(api, schema, op.customFields, payload);
+            if (errors.length) {
+              results.push({ op, error: errors.join("; ") });
+              continue;
+            }
+            if (payload.lockVersion === undefined) payload.lockVersion = current.data?.lockVersion;
+          }
           if (Object.keys(payload).length === 0) {
             results.push({ op, result: "noop" });
             continue;
@@ -773,7 +1046,7 @@ server.tool(
   );
 
   // --- list statuses/priorities/users (concise) ---
-  server.tool(
+  registerTool(
     "openproject-list-statuses",
     "Lists statuses (concise)",
     {},
@@ -790,7 +1063,7 @@ server.tool(
     })
   );
 
-  server.tool(
+  registerTool(
     "openproject-list-priorities",
     "Lists priorities (concise)",
     {},
@@ -807,7 +1080,7 @@ server.tool(
     })
   );
 
-  server.tool(
+  registerTool(
     "openproject-list-users-concise",
     "Lists users (concise) — alias for openproject-list-users with concise output",
     {},
@@ -825,7 +1098,7 @@ server.tool(
   );
 
   // --- Sync tool: bidirectional synchronization for projects/tasks ---
-  server.tool(
+  registerTool(
     "openproject-sync",
     "Synchronize tasks between OpenProject and an external system. Supports pull, push or both.",
     {
@@ -949,6 +1222,1378 @@ server.tool(
     })
   );
 
+  // --- Time tracking tools ---
+  const conciseTimeEntry = (t: any) => ({
+    id: t.id,
+    spentOn: t.spentOn ?? null,
+    hours: isoDurationToHours(t.hours),
+    activity: t._links?.activity?.title ?? null,
+    workPackage: t._links?.workPackage?.title ?? null,
+    workPackageId: t._links?.workPackage?.href?.split("/").pop() ?? null,
+    project: t._links?.project?.title ?? null,
+    user: t._links?.user?.title ?? null,
+    comment: t.comment?.raw ?? null,
+  });
+
+  registerTool(
+    "openproject-log-time",
+    "Logs time on a work package. Hours accept decimals (1.5) or durations like \"1h30m\". Activity may be a name or ID.",
+    {
+      workPackageId: z.string().describe("The ID of the work package to log time on"),
+      hours: z.union([z.number(), z.string()]).describe("Time spent, e.g. 2, 1.5, \"1h30m\" or \"45m\""),
+      spentOn: z.string().regex(/^[0-9]{4}-[0-9]{2}-[0-9]{2}$/, "Date must be YYYY-MM-DD").optional().describe("Date the time was spent (YYYY-MM-DD, default today)"),
+      activity: z.string().optional().describe("Activity name (e.g. Development) or ID"),
+      comment: z.string().optional().describe("Optional comment for the time entry"),
+      userId: z.string().optional().describe("Optional user ID to log time for (defaults to the API user)"),
+      idempotencyKey: z.string().optional().describe("Optional Idempotency-Key header"),
+    },
+    withOpenProject(async (api, params: any) => {
+      const { workPackageId, hours, spentOn, activity, comment, userId, idempotencyKey } = params;
+      const duration = toIsoDuration(hours);
+      if (!duration) {
+        return { content: [{ type: "text", text: `ERROR: invalid hours value: ${hours}` }] };
+      }
+
+      const payload: any = {
+        hours: duration,
+        spentOn: spentOn || new Date().toISOString().slice(0, 10),
+        comment: { raw: comment || "" },
+        _links: {
+          workPackage: { href: `/api/v3/work_packages/${workPackageId}` },
+        },
+      };
+      if (activity) {
+        const href = await resolveTimeEntryActivity(api, activity, workPackageId);
+        if (!href) {
+          return { content: [{ type: "text", text: `ERROR: unknown activity: ${activity}` }] };
+        }
+        payload._links.activity = { href };
+      }
+      if (userId) payload._links.user = { href: `/api/v3/users/${userId}` };
+
+      const config: any = { headers: {} };
+      if (idempotencyKey) config.headers["Idempotency-Key"] = idempotencyKey;
+
+      const response = await api.post("/time_entries", payload, config);
+      const entry = conciseTimeEntry(response.data);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Logged ${entry.hours ?? duration}h on work package ${workPackageId} for ${entry.spentOn} (ID: ${response.data.id})`,
+          },
+          { type: "text", text: JSON.stringify(response.data) },
+        ],
+      };
+    })
+  );
+
+  registerTool(
+    "openproject-list-time-entries",
+    "Lists time entries (concise) filtered by user, project, work package and date range. Set full=true to return full payload. Returns nextOffset when truncated.",
+    {
+      userId: z.string().optional().describe("Filter by user ID (or \"me\")"),
+      projectId: z.string().optional().describe("Filter by project ID"),
+      workPackageId: z.string().optional().describe("Filter by work package ID"),
+      from: z.string().regex(/^[0-9]{4}-[0-9]{2}-[0-9]{2}$/, "Date must be YYYY-MM-DD").optional().describe("Only entries spent on or after this date (YYYY-MM-DD)"),
+      to: z.string().regex(/^[0-9]{4}-[0-9]{2}-[0-9]{2}$/, "Date must be YYYY-MM-DD").optional().describe("Only entries spent on or before this date (YYYY-MM-DD)"),
+      pageSize: pageSizeSchema.optional().describe("Number of time entries per page (max 100)"),
+      offset: offsetSchema.optional().describe("Page number to retrieve (1-indexed)"),
+      full: z.boolean().optional().default(false).describe("Return full payload if true"),
+    },
+    withOpenProject(async (api, { userId, projectId, workPackageId, from, to, pageSize = 25, offset = 1, full = false }: any) => {
+      const filters: any[] = [];
+      if (userId) filters.push({ user: { operator: "=", values: [String(userId)] } });
+      if (projectId) filters.push({ project: { operator: "=", values: [String(projectId)] } });
+      if (workPackageId) filters.push({ work_package: { operator: "=", values: [String(workPackageId)] } });
+      if (from || to) {
+        filters.push({ spent_on: { operator: "<>d", values: [from ?? "", to ?? ""] } });
+      }
+
+      const qparams: any = { pageSize, offset };
+      if (filters.length) qparams.filters = JSON.stringify(filters);
+      const resp = await api.get("/time_entries", { params: qparams });
+      const els = resp.data?._embedded?.elements ?? [];
+      const nextOffset = els.length < pageSize ? null : offset + 1;
+
+      if (full) {
+        return {
+          content: [
+            { type: "text", text: `Time entries: ${els.length} (page=${offset}, size=${pageSize}) nextOffset=${nextOffset ?? "none"}` },
+            { type: "text", text: JSON.stringify({ items: els, nextOffset }) },
+          ],
+        };
+      }
+
+      const concise = els.map(conciseTimeEntry);
+      const totalHours = concise.reduce((sum: number, t: any) => sum + (t.hours ?? 0), 0);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Time entries: ${concise.length} (page=${offset}, size=${pageSize}) hours=${Math.round(totalHours * 100) / 100} nextOffset=${nextOffset ?? "none"}`,
+          },
+          { type: "text", text: JSON.stringify({ items: concise, nextOffset }) },
+        ],
+      };
+    })
+  );
+
+  registerTool(
+    "openproject-update-time-entry",
+    "Updates an existing time entry. Only include fields to be changed.",
+    {
+      timeEntryId: z.string().describe("The ID of the time entry to update"),
+      hours: z.union([z.number(), z.string()]).optional().describe("New time spent, e.g. 2, 1.5 or \"1h30m\""),
+      spentOn: z.string().regex(/^[0-9]{4}-[0-9]{2}-[0-9]{2}$/, "Date must be YYYY-MM-DD").optional().describe("New date (YYYY-MM-DD)"),
+      activity: z.string().optional().describe("New activity name or ID"),
+      comment: z.string().optional().describe("New comment"),
+      idempotencyKey: z.string().optional().describe("Optional Idempotency-Key header"),
+    },
+    withOpenProject(async (api, params: any) => {
+      const { timeEntryId, hours, spentOn, activity, comment, idempotencyKey } = params;
+      const updatePayload: any = {};
+      if (hours !== undefined) {
+        const duration = toIsoDuration(hours);
+        if (!duration) {
+          return { content: [{ type: "text", text: `ERROR: invalid hours value: ${hours}` }] };
+        }
+        updatePayload.hours = duration;
+      }
+      if (spentOn) updatePayload.spentOn = spentOn;
+      if (comment !== undefined) updatePayload.comment = { raw: comment };
+      if (activity) {
+        let workPackageId: string | undefined;
+        if (!/^\d+$/.test(activity)) {
+          const current = await api.get(`/time_entries/${timeEntryId}`);
+          workPackageId = current.data?._links?.workPackage?.href?.split("/").pop();
+        }
+        const href = await resolveTimeEntryActivity(api, activity, workPackageId);
+        if (!href) {
+          return { content: [{ type: "text", text: `ERROR: unknown activity: ${activity}` }] };
+        }
+        updatePayload._links = { activity: { href } };
+      }
+
+      if (Object.keys(updatePayload).length === 0) {
+        return { content: [{ type: "text", text: "ERROR: no fields provided to update" }] };
+      }
+
+      const config: any = { headers: {} };
+      if (idempotencyKey) config.headers["Idempotency-Key"] = idempotencyKey;
+
+      const resp = await api.patch(`/time_entries/${timeEntryId}`, updatePayload, config);
+      const entry = conciseTimeEntry(resp.data);
+      return {
+        content: [
+          { type: "text", text: `Successfully updated time entry ${timeEntryId}: ${entry.hours ?? "?"}h on ${entry.spentOn ?? "?"}` },
+          { type: "text", text: JSON.stringify(resp.data) },
+        ],
+      };
+    })
+  );
+
+  registerTool(
+    "openproject-delete-time-entry",
+    "Deletes a time entry from OpenProject. This action is irreversible. Two-phase: the first call returns a preview and a short-lived confirmationToken (or asks the user directly where the client supports elicitation); call again with the token to delete.",
+    {
+      timeEntryId: z.string().describe("The ID of the time entry to delete"),
+      idempotencyKey: z.string().optional().describe("Optional Idempotency-Key header"),
+      confirmationToken: z.string().optional().describe("Token from the preview returned by the first call"),
+    },
+    withOpenProject(async (api, params: any, context?: ToolContext) => {
+      const { timeEntryId, idempotencyKey, confirmationToken } = params;
+      try {
+        if (confirmationRequired()) {
+          const unconfirmed = await confirmDestructive(server.server, api, context, {
+            tool: "openproject-delete-time-entry",
+            target: timeEntryId,
+            token: confirmationToken,
+            preview: () => previewTimeEntryDeletion(api, timeEntryId),
+          });
+          if (unconfirmed) return unconfirmed;
+        }
+        const config: any = {};
+        if (idempotencyKey) config.headers = { "Idempotency-Key": idempotencyKey };
+        await api.delete(`/time_entries/${timeEntryId}`, config);
+        return {
+          content: [{ type: "text", text: `Successfully deleted time entry with ID: ${timeEntryId}` }],
+        };
+      } catch (error: unknown) {
+        if (isNotFoundError(error)) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Time entry with ID ${timeEntryId} not found. It might have already been deleted.`,
+              },
+            ],
+          };
+        }
+        throw error;
+      }
+    })
+  );
+
+  // --- Relations and hierarchy tools ---
+  const relationTypes = [
+    "relates",
+    "duplicates",
+    "duplicated",
+    "blocks",
+    "blocked",
+    "precedes",
+    "follows",
+    "includes",
+    "partof",
+    "requires",
+    "required",
+  ] as const;
+
+  const conciseRelation = (r: any) => ({
+    id: r.id,
+    type: r.type ?? null,
+    reverseType: r.reverseType ?? null,
+    lag: r.lag ?? null,
+    description: r.description ?? null,
+    from: { id: r._links?.from?.href?.split("/").pop() ?? null, subject: r._links?.from?.title ?? null },
+    to: { id: r._links?.to?.href?.split("/").pop() ?? null, subject: r._links?.to?.title ?? null },
+  });
+
+  registerTool(
+    "openproject-list-relations",
+    "Lists relations (blocks, follows, relates, ...) involving a work package (concise)",
+    {
+      taskId: z.string().describe("The ID of the work package"),
+    },
+    withOpenProject(async (api, params: any) => {
+      const { taskId } = params;
+      const filters = JSON.stringify([{ involved: { operator: "=", values: [String(taskId)] } }]);
+      const resp = await api.get("/relations", { params: { filters, pageSize: 100 } });
+      const els = resp.data?._embedded?.elements ?? [];
+      const concise = els.map(conciseRelation);
+      return {
+        content: [
+          { type: "text", text: `Relations for work package ${taskId}: ${concise.length}` },
+          { type: "text", text: JSON.stringify(concise) },
+        ],
+      };
+    })
+  );
+
+  registerTool(
+    "openproject-create-relation",
+    "Creates a relation from one work package to another (relates, blocks, precedes/follows with lag, duplicates, ...)",
+    {
+      fromId: z.string().describe("The ID of the work package the relation starts from"),
+      toId: z.string().describe("The ID of the related work package"),
+      type: z.enum(relationTypes).describe("Relation type, read as '<fromId> <type> <toId>' (e.g. 12 blocks 34)"),
+      lag: z.number().int().min(0).optional().describe("Working days between the two work packages (precedes/follows only)"),
+      description: z.string().optional().describe("Optional description of the relation"),
+      idempotencyKey: z.string().optional().describe("Optional Idempotency-Key header"),
+    },
+    withOpenProject(async (api, params: any) => {
+      const { fromId, toId, type, lag, description, idempotencyKey } = params;
+      if (String(fromId) === String(toId)) {
+        return { content: [{ type: "text", text: "ERROR: a work package cannot be related to itself" }] };
+      }
+      if (lag !== undefined && type !== "precedes" && type !== "follows") {
+        return { content: [{ type: "text", text: "ERROR: lag is only supported for precedes/follows relations" }] };
+      }
+
+      const payload: any = {
+        type,
+        _links: { to: { href: `/api/v3/work_packages/${toId}` } },
+      };
+      if (lag !== undefined) payload.lag = lag;
+      if (description) payload.description = description;
+
+      const config: any = { headers: {} };
+      if (idempotencyKey) config.headers["Idempotency-Key"] = idempotencyKey;
+
+      const response = await api.post(`/work_packages/${fromId}/relations`, payload, config);
+      return {
+        content: [
+          { type: "text", text: `Successfully created relation: ${fromId} ${type} ${toId} (ID: ${response.data.id})` },
+          { type: "text", text: JSON.stringify(conciseRelation(response.data)) },
+        ],
+      };
+    })
+  );
+
+  registerTool(
+    "openproject-delete-relation",
+    "Deletes a relation between two work packages. This action is irreversible. Two-phase: the first call returns a preview and a short-lived confirmationToken (or asks the user directly where the client supports elicitation); call again with the token to delete.",
+    {
+      relationId: z.string().describe("The ID of the relation to delete"),
+      idempotencyKey: z.string().optional().describe("Optional Idempotency-Key header"),
+      confirmationToken: z.string().optional().describe("Token from the preview returned by the first call"),
+    },
+    withOpenProject(async (api, params: any, context?: ToolContext) => {
+      const { relationId, idempotencyKey, confirmationToken } = params;
+      try {
+        if (confirmationRequired()) {
+          const unconfirmed = await confirmDestructive(server.server, api, context, {
+            tool: "openproject-delete-relation",
+            target: relationId,
+            token: confirmationToken,
+            preview: () => previewRelationDeletion(api, relationId),
+          });
+          if (unconfirmed) return unconfirmed;
+        }
+        const config: any = {};
+        if (idempotencyKey) config.headers = { "Idempotency-Key": idempotencyKey };
+        await api.delete(`/relations/${relationId}`, config);
+        return {
+          content: [{ type: "text", text: `Successfully deleted relation with ID: ${relationId}` }],
+        };
+      } catch (error: unknown) {
+        if (isNotFoundError(error)) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Relation with ID ${relationId} not found. It might have already been deleted.`,
+              },
+            ],
+          };
+        }
+        throw error;
+      }
+    })
+  );
+
+  registerTool(
+    "openproject-get-task-tree",
+    "Returns the child tree under a work package as nested concise nodes, down to a depth limit",
+    {
+      taskId: z.string().describe("The ID of the root work package"),
+      depth: z.number().int().min(1).max(10).optional().default(3).describe("Maximum depth of children to fetch (1-10)"),
+    },
+    withOpenProject(async (api, params: any, context?: ToolContext) => {
+      const { taskId, depth = 3 } = params;
+      // children in projects outside the caller's scope are left out, with their subtrees
+      const inScope = projectScopeFilter(context);
+
+      // _links.children lists direct children, so we only query parents that actually have them
+      const node = (w: any) => ({
+        id: w.id,
+        subject: w.subject,
+        type: w._links?.type?.title ?? null,
+        status: w._links?.status?.title ?? null,
+        assignee: w._links?.assignee?.title ?? null,
+        childCount: Array.isArray(w._links?.children) ? w._links.children.length : 0,
+        children: [] as any[],
+      });
+
+      const fetchChildren = async (parentId: number | string) => {
+        const filters = JSON.stringify([{ parent: { operator: "=", values: [String(parentId)] } }]);
+        const all: any[] = [];
+        let offset = 1;
+        while (true) {
+          const resp = await api.get("/work_packages", { params: { filters, pageSize: 100, offset } });
+          const els = resp.data?._embedded?.elements ?? [];
+          all.push(...els);
+          if (els.length < 100) break;
+          offset += 1;
+        }
+        return all;
+      };
+
+      const rootResp = await api.get(`/work_packages/${taskId}`);
+      const root = node(rootResp.data);
+      let count = 0;
+      let truncated = false;
+
+      const expand = async (current: any, level: number) => {
+        if (!current.childCount) return;
+        if (level >= depth) {
+          truncated = true;
+          return;
+        }
+        for (const child of await fetchChildren(current.id)) {
+          if (!(await inScope(idFromHref(child._links?.project?.href)))) continue;
+          const n = node(child);
+          count++;
+          current.children.push(n);
+          await expand(n, level + 1);
+        }
+      };
+
+      await expand(root, 0);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Task tree for ${taskId}: ${count} descendants (depth<=${depth})${truncated ? " truncated at depth limit" : ""}`,
+          },
+          { type: "text", text: JSON.stringify(root) },
+        ],
+      };
+    })
+  );
+
+  // --- Comments and activity journal ---
+  registerTool(
+    "openproject-add-comment",
+    "Posts a comment (markdown) on a work package. Set internal=true for an internal/private comment where the instance supports it.",
+    {
+      taskId: z.string().describe("The ID of the work package to comment on"),
+      comment: z.string().min(1).describe("Comment text (markdown)"),
+      internal: z.boolean().optional().default(false).describe("Post as an internal comment (only visible to privileged members)"),
+      notify: z.boolean().optional().describe("Whether watchers should be notified (instance default if omitted)"),
+      idempotencyKey: z.string().optional().describe("Optional Idempotency-Key header"),
+    },
+    withOpenProject(async (api, params: any) => {
+      const { taskId, comment, internal = false, notify, idempotencyKey } = params;
+      try {
+        const response = await addWorkPackageComment(api, taskId, comment, { internal, notify, idempotencyKey });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Successfully added ${internal ? "internal " : ""}comment to task ${taskId} (activity ID: ${response.data?.id ?? "?"})`,
+            },
+            { type: "text", text: JSON.stringify(response.data) },
+          ],
+        };
+      } catch (error: unknown) {
+        // older/community instances reject the internal flag; don't silently post it publicly
+        if (internal && (error as any)?.response?.status === 422) {
+          return {
+            content: [
+              { type: "text", text: `ERROR: internal comments are not supported by this instance: ${getErrorMessage(error)}` },
+            ],
+          };
+        }
+        throw error;
+      }
+    })
+  );
+
+  registerTool(
+    "openproject-get-task-activities",
+    "Returns the activity journal of a work package as a concise timeline (comments and field changes). Returns nextOffset when truncated.",
+    {
+      taskId: z.string().describe("The ID of the work package"),
+      since: z.string().optional().describe("Only include activities at or after this date/time (ISO 8601, e.g. 2024-05-01)"),
+      until: z.string().optional().describe("Only include activities before this date/time (ISO 8601)"),
+      order: z.enum(["asc", "desc"]).optional().default("desc").describe("Chronological order (desc = newest first)"),
+      pageSize: pageSizeSchema.optional().describe("Number of entries per page (max 100)"),
+      offset: offsetSchema.optional().describe("Page number to retrieve (1-indexed)"),
+    },
+    withOpenProject(async (api, { taskId, since, until, order = "desc", pageSize = 25, offset = 1 }: any) => {
+      const resp = await api.get(`/work_packages/${taskId}/activities`);
+      const els = resp.data?._embedded?.elements ?? [];
+
+      const sinceTs = since ? Date.parse(since) : NaN;
+      const untilTs = until ? Date.parse(until) : NaN;
+      if ((since && Number.isNaN(sinceTs)) || (until && Number.isNaN(untilTs))) {
+        return { content: [{ type: "text", text: "ERROR: since/until must be ISO 8601 dates" }] };
+      }
+
+      const timeline = els
+        .map((a: any) => {
+          const changes = (a.details ?? []).map((d: any) => d.raw ?? d.html ?? "").filter(Boolean);
+          const comment = a.comment?.raw ? a.comment.raw : null;
+          return {
+            id: a.id,
+            at: a.createdAt ?? null,
+            user: a._links?.user?.title ?? null,
+            version: a.version ?? null,
+            internal: a.internal ?? undefined,
+            comment,
+            changes,
+          };
+        })
+        .filter((e: any) => {
+          const ts = e.at ? Date.parse(e.at) : NaN;
+          if (!Number.isNaN(sinceTs) && !(ts >= sinceTs)) return false;
+          if (!Number.isNaN(untilTs) && !(ts < untilTs)) return false;
+          return e.comment || e.changes.length;
+        });
+      timeline.sort((a: any, b: any) => {
+        const diff = Date.parse(a.at ?? 0) - Date.parse(b.at ?? 0);
+        return order === "asc" ? diff : -diff;
+      });
+
+      const { items, nextOffset } = safeTruncate(timeline, offset, pageSize);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Activities for task ${taskId}: ${items.length} of ${timeline.length} (page=${offset}, size=${pageSize}) nextOffset=${nextOffset ?? "none"}`,
+          },
+          { type: "text", text: JSON.stringify({ items, nextOffset }) },
+        ],
+      };
+    })
+  );
+
+  // --- Saved queries (views) ---
+  const conciseQuery = (q: any) => ({
+    id: q.id,
+    name: q.name,
+    public: q.public ?? null,
+    starred: q.starred ?? null,
+    project: q._links?.project?.title ?? null,
+  });
+
+  const resolveQueryId = async (api: any, query: string) => {
+    if (/^\d+$/.test(String(query))) return String(query);
+    const r = await api.get("/queries", { params: { pageSize: 500 } });
+    const els = r.data?._embedded?.elements ?? [];
+    const lower = String(query).toLowerCase();
+    const found = els.find((q: any) => q.name === query) ?? els.find((q: any) => String(q.name).toLowerCase() === lower);
+    return found ? String(found.id) : null;
+  };
+
+  registerTool(
+    "openproject-list-queries",
+    "Lists saved queries (views) visible to the user (concise)",
+    {
+      projectId: z.string().optional().describe("Optional project ID to only list queries of that project"),
+    },
+    withOpenProject(async (api, params: any) => {
+      const { projectId } = params;
+      const filters: ApiFilter[] = [];
+      if (projectId) filters.push(apiFilter("project", "=", [projectId]));
+      const r = await api.get("/queries", { params: { filters: filtersParam(filters), pageSize: 500 } });
+      const concise = (r.data?._embedded?.elements ?? []).map(conciseQuery);
+      return {
+        content: [
+          { type: "text", text: `Queries: ${concise.length}` },
+          { type: "text", text: JSON.stringify(concise) },
+        ],
+      };
+    })
+  );
+
+  registerTool(
+    "openproject-run-query",
+    "Runs a saved query by ID or name and returns its work packages (concise). Returns total and nextOffset.",
+    {
+      query: z.string().describe("Saved query ID or exact name (e.g. \"My open bugs\")"),
+      pageSize: pageSizeSchema.optional().describe("Number of tasks per page (max 100)"),
+      offset: offsetSchema.optional().describe("Page number to retrieve (1-indexed)"),
+      full: z.boolean().optional().default(false).describe("Return full payload if true"),
+    },
+    withOpenProject(async (api, { query, pageSize = 25, offset = 1, full = false }: any) => {
+      const queryId = await resolveQueryId(api, query);
+      if (!queryId) {
+        return { content: [{ type: "text", text: `ERROR: query not found: ${query}` }] };
+      }
+      const r = await api.get(`/queries/${queryId}`, { params: { pageSize, offset } });
+      const results = r.data?._embedded?.results;
+      const els = results?._embedded?.elements ?? [];
+      const { total, nextOffset } = collectionPaging(results, offset, pageSize);
+      const items = full ? els : els.map(conciseTask);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Query "${r.data?.name ?? queryId}": ${items.length} of ${total ?? "unknown"} (page=${offset}, size=${pageSize}) nextOffset=${nextOffset ?? "none"}`,
+          },
+          { type: "text", text: JSON.stringify({ items, total, nextOffset }) },
+        ],
+      };
+    })
+  );
+
+  registerTool(
+    "openproject-save-query",
+    "Saves a new query (view) from a filter set. Filter values for status/type/priority/assignee/... may be names or IDs.",
+    {
+      name: z.string().describe("Name of the saved query"),
+      projectId: z.string().optional().describe("Optional project ID; omit for a global query"),
+      public: z.boolean().optional().default(false).describe("Share the query with other users"),
+      starred: z.boolean().optional().default(false).describe("Show the query in the favorites list"),
+      filters: z
+        .array(
+          z.object({
+            field: z.string().describe("Filter name, e.g. status, assignee, dueDate, subject"),
+            operator: z.string().describe("Operator, e.g. =, !, o, c, ~, <>d"),
+            values: z.array(z.string()).optional().default([]).describe("Filter values"),
+          })
+        )
+        .optional()
+        .default([])
+        .describe("Filters of the query"),
+      sortBy: z
+        .array(z.string().regex(/^[A-Za-z_]+(:(asc|desc))?$/, "Use field or field:asc|desc"))
+        .optional()
+        .describe("Sort criteria, e.g. [\"dueDate:asc\"]"),
+      idempotencyKey: z.string().optional().describe("Optional Idempotency-Key header"),
+    },
+    withOpenProject(async (api, params: any) => {
+      const { name, projectId, public: isPublic = false, starred = false, filters = [], sortBy, idempotencyKey } = params;
+
+      const apiFilters: ApiFilter[] = [];
+      const unresolved: string[] = [];
+      for (const f of filters) {
+        let values: string[] = f.values ?? [];
+        const collection = linkFilterCollections[f.field];
+        if (principalFilterFields.includes(f.field)) {
+          const hrefs: string[] = [];
+          for (const v of values) {
+            const href = v === "me" ? "me" : (await resolvePrincipal(api, v))?.href;
+            if (href) hrefs.push(href);
+            else unresolved.push(`${f.field}=${v}`);
+          }
+          values = hrefs;
+        } else if (collection) {
+          const ids: string[] = [];
+          for (const v of values) {
+            const id = v === "me" ? "me" : await resolveIdByName(api, collection, v);
+            if (id) ids.push(id);
+            else unresolved.push(`${f.field}=${v}`);
+          }
+          values = ids;
+        }
+        apiFilters.push(apiFilter(f.field, f.operator, values));
+      }
+      if (unresolved.length) {
+        return { content: [{ type: "text", text: `ERROR: could not resolve: ${unresolved.join(", ")}` }] };
+      }
+
+      const payload: any = {
+        name,
+        public: isPublic,
+        starred,
+        filters: apiFilters.map(toQueryFilter),
+        _links: {},
+      };
+      if (projectId) payload._links.project = { href: `/api/v3/projects/${projectId}` };
+      if (sortBy?.length) {
+        payload._links.sortBy = sortBy.map((s: string) => {
+          const [field, direction = "asc"] = s.split(":");
+          return { href: `/api/v3/queries/sort_bys/${field}-${direction}` };
+        });
+      }
+
+      const config: any = { headers: {} };
+      if (idempotencyKey) config.headers["Idempotency-Key"] = idempotencyKey;
+
+      const response = await api.post("/queries", payload, config);
+      return {
+        content: [
+          { type: "text", text: `Successfully saved query: ${response.data.name} (ID: ${response.data.id})` },
+          { type: "text", text: JSON.stringify(conciseQuery(response.data)) },
+        ],
+      };
+    })
+  );
+
+  // Each saved query is exposed as a resource so clients can attach it as context
+  server.resource(
+    "openproject-query",
+    new ResourceTemplate("openproject://queries/{id}", {
+      list: async (extra) => {
+        const api = getOpenProjectApi(contextConfig(extra));
+        if (!api) return { resources: [] };
+        try {
+          const r = await api.get("/queries", { params: { pageSize: 500 } });
+          const inScope = projectScopeFilter(extra);
+          const queries: any[] = [];
+          for (const q of r.data?._embedded?.elements ?? []) {
+            if (await inScope(idFromHref(q._links?.project?.href))) queries.push(q);
+          }
+          return {
+            resources: queries.map((q: any) => ({
+              uri: `openproject://queries/${q.id}`,
+              name: q.name,
+              description: q._links?.project?.title ? `Saved query in ${q._links.project.title}` : "Global saved query",
+              mimeType: "application/json",
+            })),
+          };
+        } catch (err: unknown) {
+          logger.warn({ err: getErrorMessage(err) }, "Failed to list saved queries as resources");
+          return { resources: [] };
+        }
+      },
+    }),
+    { mimeType: "application/json", description: "Saved OpenProject query (first page of results)" },
+    async (uri, { id }, extra): Promise<ReadResourceResult> => {
+      const api = getOpenProjectApi(contextConfig(extra));
+      if (!api) throw new Error(missingConfigMessage);
+      await assertResourcePermitted(extra, { query: String(id) });
+      const r = await api.get(`/queries/${id}`, { params: { pageSize: 100, offset: 1 } });
+      const results = r.data?._embedded?.results;
+      const { total } = collectionPaging(results, 1, 100);
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify({
+              query: conciseQuery(r.data),
+              total,
+              items: (results?._embedded?.elements ?? []).map(conciseTask),
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // Work packages and projects as subscribable resources; webhooks push notifications/resources/updated
+  server.resource(
+    "openproject-work-package",
+    new ResourceTemplate(workPackageUri("{id}"), { list: undefined }),
+    { mimeType: "application/json", description: "OpenProject work package (subscribe to be notified of changes)" },
+    async (uri, { id }, extra): Promise<ReadResourceResult> => {
+      const api = getOpenProjectApi(contextConfig(extra));
+      if (!api) throw new Error(missingConfigMessage);
+      await assertResourcePermitted(extra, { taskId: String(id) });
+      const r = await api.get(`/work_packages/${id}`);
+      return {
+        contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(r.data) }],
+      };
+    }
+  );
+
+  server.resource(
+    "openproject-project",
+    new ResourceTemplate(projectUri("{id}"), {
+      list: async (extra) => {
+        const api = getOpenProjectApi(contextConfig(extra));
+        if (!api) return { resources: [] };
+        try {
+          const r = await api.get("/projects", { params: { pageSize: 100 } });
+          const inScope = projectScopeFilter(extra);
+          const projects: any[] = [];
+          for (const p of r.data?._embedded?.elements ?? []) {
+            if (await inScope(String(p.id))) projects.push(p);
+          }
+          return {
+            resources: projects.map((p: any) => ({
+              uri: projectUri(p.id),
+              name: p.name,
+              mimeType: "application/json",
+            })),
+          };
+        } catch (err: unknown) {
+          logger.warn({ err: getErrorMessage(err) }, "Failed to list projects as resources");
+          return { resources: [] };
+        }
+      },
+    }),
+    { mimeType: "application/json", description: "OpenProject project (subscribe to be notified of changes)" },
+    async (uri, { id }, extra): Promise<ReadResourceResult> => {
+      const api = getOpenProjectApi(contextConfig(extra));
+      if (!api) throw new Error(missingConfigMessage);
+      await assertResourcePermitted(extra, { projectId: String(id) });
+      const r = await api.get(`/projects/${id}`);
+      return {
+        contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(r.data) }],
+      };
+    }
+  );
+
+  // --- Versions / milestones ---
+  const conciseVersion = (v: any) => ({
+    id: v.id,
+    name: v.name,
+    status: v.status ?? null,
+    sharing: v.sharing ?? null,
+    startDate: v.startDate ?? null,
+    endDate: v.endDate ?? null,
+    project: v._links?.definingProject?.title ?? null,
+  });
+
+  const resolveVersionId = async (api: any, version: string, projectId?: string) => {
+    if (/^\d+$/.test(String(version))) return String(version);
+    if (!projectId) return null;
+    return resolveIdByName(api, `/projects/${projectId}/versions`, version);
+  };
+
+  const versionDateSchema = z.string().regex(/^[0-9]{4}-[0-9]{2}-[0-9]{2}$/, "Date must be YYYY-MM-DD");
+  const versionStatusSchema = z.enum(["open", "locked", "closed"]);
+  const versionSharingSchema = z.enum(["none", "descendants", "hierarchy", "tree", "system"]);
+
+  registerTool(
+    "openproject-list-versions",
+    "Lists versions (milestones/releases) available in a project (concise)",
+    {
+      projectId: z.string().describe("The ID or identifier of the project"),
+    },
+    withOpenProject(async (api, params: any) => {
+      const { projectId } = params;
+      const r = await api.get(`/projects/${projectId}/versions`);
+      const concise = (r.data?._embedded?.elements ?? []).map(conciseVersion);
+      return {
+        content: [
+          { type: "text", text: `Versions in project ${projectId}: ${concise.length}` },
+          { type: "text", text: JSON.stringify(concise) },
+        ],
+      };
+    })
+  );
+
+  registerTool(
+    "openproject-create-version",
+    "Creates a version (milestone/release) in a project",
+    {
+      projectId: z.string().describe("The ID of the project defining the version"),
+      name: z.string().describe("Name of the version (e.g. 2.4)"),
+      description: z.string().optional().describe("Optional description"),
+      startDate: versionDateSchema.optional().describe("Start date in YYYY-MM-DD format"),
+      endDate: versionDateSchema.optional().describe("Finish/release date in YYYY-MM-DD format"),
+      status: versionStatusSchema.optional().default("open").describe("open, locked or closed"),
+      sharing: versionSharingSchema.optional().default("none").describe("Which other projects may use the version"),
+      idempotencyKey: z.string().optional().describe("Optional Idempotency-Key header"),
+    },
+    withOpenProject(async (api, params: any) => {
+      const { projectId, name, description, startDate, endDate, status, sharing, idempotencyKey } = params;
+      const payload: any = {
+        name,
+        description: { raw: description || "" },
+        status,
+        sharing,
+        _links: { definingProject: { href: `/api/v3/projects/${projectId}` } },
+      };
+      if (startDate) payload.startDate = startDate;
+      if (endDate) payload.endDate = endDate;
+
+      const config: any = { headers: {} };
+      if (idempotencyKey) config.headers["Idempotency-Key"] = idempotencyKey;
+
+      const response = await api.post("/versions", payload, config);
+      return {
+        content: [
+          { type: "text", text: `Successfully created version: ${response.data.name} (ID: ${response.data.id})` },
+          { type: "text", text: JSON.stringify(conciseVersion(response.data)) },
+        ],
+      };
+    })
+  );
+
+  registerTool(
+    "openproject-update-version",
+    "Updates a version (name, dates, status open/locked/closed, sharing). Only include fields to be changed.",
+    {
+      versionId: z.string().describe("The ID of the version to update"),
+      name: z.string().optional().describe("New name"),
+      description: z.string().optional().describe("New description"),
+      startDate: versionDateSchema.optional().describe("New start date in YYYY-MM-DD format"),
+      endDate: versionDateSchema.optional().describe("New finish date in YYYY-MM-DD format"),
+      status: versionStatusSchema.optional().describe("open, locked or closed"),
+      sharing: versionSharingSchema.optional().describe("Which other projects may use the version"),
+      idempotencyKey: z.string().optional().describe("Optional Idempotency-Key header"),
+    },
+    withOpenProject(async (api, params: any) => {
+      const { versionId, name, description, startDate, endDate, status, sharing, idempotencyKey } = params;
+      const updatePayload: any = {};
+      if (name) updatePayload.name = name;
+      if (description !== undefined) updatePayload.description = { raw: description };
+      if (startDate) updatePayload.startDate = startDate;
+      if (endDate) updatePayload.endDate = endDate;
+      if (status) updatePayload.status = status;
+      if (sharing) updatePayload.sharing = sharing;
+      if (Object.keys(updatePayload).length === 0) {
+        return { content: [{ type: "text", text: "ERROR: no fields provided to update" }] };
+      }
+
+      const config: any = { headers: {} };
+      if (idempotencyKey) config.headers["Idempotency-Key"] = idempotencyKey;
+
+      const response = await api.patch(`/versions/${versionId}`, updatePayload, config);
+      return {
+        content: [
+          { type: "text", text: `Successfully updated version: ${response.data.name}` },
+          { type: "text", text: JSON.stringify(conciseVersion(response.data)) },
+        ],
+      };
+    })
+  );
+
+  registerTool(
+    "openproject-delete-version",
+    "Deletes a version from OpenProject. This action is irreversible. Two-phase: the first call returns a preview and a short-lived confirmationToken (or asks the user directly where the client supports elicitation); call again with the token to delete.",
+    {
+      versionId: z.string().describe("The ID of the version to delete"),
+      idempotencyKey: z.string().optional().describe("Optional Idempotency-Key header"),
+      confirmationToken: z.string().optional().describe("Token from the preview returned by the first call"),
+    },
+    withOpenProject(async (api, params: any, context?: ToolContext) => {
+      const { versionId, idempotencyKey, confirmationToken } = params;
+      try {
+        if (confirmationRequired()) {
+          const unconfirmed = await confirmDestructive(server.server, api, context, {
+            tool: "openproject-delete-version",
+            target: versionId,
+            token: confirmationToken,
+            preview: () => previewVersionDeletion(api, versionId),
+          });
+          if (unconfirmed) return unconfirmed;
+        }
+        const config: any = {};
+        if (idempotencyKey) config.headers = { "Idempotency-Key": idempotencyKey };
+        await api.delete(`/versions/${versionId}`, config);
+        return {
+          content: [{ type: "text", text: `Successfully deleted version with ID: ${versionId}` }],
+        };
+      } catch (error: unknown) {
+        if (isNotFoundError(error)) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Version with ID ${versionId} not found. It might have already been deleted.`,
+              },
+            ],
+          };
+        }
+        throw error;
+      }
+    })
+  );
+
+  registerTool(
+    "openproject-assign-version",
+    "Assigns a version to one or more work packages. Use version \"none\" to clear it.",
+    {
+      version: z.string().describe("Version ID, version name (requires projectId) or \"none\""),
+      projectId: z.string().optional().describe("Project used to resolve a version name"),
+      taskIds: z.array(z.string()).min(1).describe("IDs of the work packages to update"),
+    },
+    withOpenProject(async (api, params: any) => {
+      const { version, projectId, taskIds } = params;
+      let href: string | null = null;
+      if (version !== "none") {
+        const versionId = await resolveVersionId(api, version, projectId);
+        if (!versionId) {
+          return { content: [{ type: "text", text: `ERROR: version not found: ${version}` }] };
+        }
+        href = `/api/v3/versions/${versionId}`;
+      }
+
+      const results: any[] = [];
+      for (const id of taskIds) {
+        try {
+          const current = await api.get(`/work_packages/${id}`);
+          const payload = { lockVersion: current.data?.lockVersion, _links: { version: { href } } };
+          const resp = await patchWithConflictRetry(api, `/work_packages/${id}`, `/work_packages/${id}`, payload);
+          results.push({ id, version: resp.data?._links?.version?.title ?? null });
+        } catch (err) {
+          results.push({ id, error: getErrorMessage(err) });
+        }
+      }
+      const failed = results.filter((r) => r.error).length;
+      return {
+        content: [
+          { type: "text", text: `Version assignment completed: updated=${results.length - failed}, failed=${failed}` },
+          { type: "text", text: JSON.stringify(results) },
+        ],
+      };
+    })
+  );
+
+  registerTool(
+    "openproject-version-progress",
+    "Reports progress of a version: work packages by status, estimated vs. spent hours and overdue items",
+    {
+      version: z.string().describe("Version ID or name (name requires projectId)"),
+      projectId: z.string().optional().describe("Project used to resolve a version name"),
+    },
+    withOpenProject(async (api, params: any) => {
+      const { version, projectId } = params;
+      const versionId = await resolveVersionId(api, version, projectId);
+      if (!versionId) {
+        return { content: [{ type: "text", text: `ERROR: version not found: ${version}` }] };
+      }
+
+      const versionResp = await api.get(`/versions/${versionId}`);
+      const statusesResp = await api.get("/statuses");
+      const closedStatuses = new Set(
+        (statusesResp.data?._embedded?.elements ?? []).filter((st: any) => st.isClosed).map((st: any) => st.name)
+      );
+
+      const filters = filtersParam([apiFilter("version", "=", [versionId])]);
+      const all: any[] = [];
+      let offset = 1;
+      while (true) {
+        const resp = await api.get("/work_packages", { params: { filters, pageSize: 100, offset } });
+        const els = resp.data?._embedded?.elements ?? [];
+        all.push(...els);
+        if (els.length < 100) break;
+        offset += 1;
+      }
+
+      const today = new Date().toISOString().slice(0, 10);
+      const byStatus: Record<string, number> = {};
+      let estimated = 0;
+      let spent = 0;
+      let closed = 0;
+      const overdue: any[] = [];
+      for (const w of all) {
+        const status = w._links?.status?.title ?? "unknown";
+        byStatus[status] = (byStatus[status] ?? 0) + 1;
+        estimated += isoDurationToHours(w.estimatedTime) ?? 0;
+        spent += isoDurationToHours(w.spentTime) ?? 0;
+        const isClosed = closedStatuses.has(status);
+        if (isClosed) closed++;
+        if (!isClosed && w.dueDate && w.dueDate < today) overdue.push(conciseTask(w));
+      }
+
+      const v = conciseVersion(versionResp.data);
+      const report = {
+        version: v,
+        total: all.length,
+        closed,
+        open: all.length - closed,
+        percentClosed: all.length ? Math.round((closed / all.length) * 100) : 0,
+        byStatus,
+        estimatedHours: Math.round(estimated * 100) / 100,
+        spentHours: Math.round(spent * 100) / 100,
+        overdue,
+        daysUntilEnd: v.endDate ? Math.ceil((Date.parse(v.endDate) - Date.parse(today)) / 86_400_000) : null,
+      };
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Version ${v.name}: ${closed}/${all.length} closed (${report.percentClosed}%), estimated=${report.estimatedHours}h spent=${report.spentHours}h overdue=${overdue.length}${v.endDate ? ` due=${v.endDate}` : ""}`,
+          },
+          { type: "text", text: JSON.stringify(report) },
+        ],
+      };
+    })
+  );
+
+  // --- Project memberships and roles ---
+  const conciseMembership = (m: any) => ({
+    id: m.id,
+    principal: m._links?.principal?.title ?? null,
+    principalId: idFromHref(m._links?.principal?.href),
+    project: m._links?.project?.title ?? null,
+    roles: (m._links?.roles ?? []).map((r: any) => r.title),
+  });
+
+  const findMembership = async (api: any, projectId: string, principalId: string) => {
+    const filters = filtersParam([
+      apiFilter("project", "=", [projectId]),
+      apiFilter("principal", "=", [principalId]),
+    ]);
+    const r = await api.get("/memberships", { params: { filters } });
+    return (r.data?._embedded?.elements ?? [])[0] ?? null;
+  };
+
+  // Resolves role names/IDs to hrefs, collecting the ones that could not be found
+  const resolveRoles = async (api: any, roles: string[]) => {
+    const hrefs: { href: string; title: string }[] = [];
+    const unresolved: string[] = [];
+    for (const role of roles) {
+      const id = await resolveIdByName(api, "/roles", role);
+      if (id) hrefs.push({ href: `/api/v3/roles/${id}`, title: role });
+      else unresolved.push(role);
+    }
+    return { hrefs, unresolved };
+  };
+
+  const membershipMeta = (notificationMessage?: string) =>
+    notificationMessage ? { notificationMessage: { raw: notificationMessage } } : undefined;
+
+  registerTool(
+    "openproject-list-roles",
+    "Lists roles that can be assigned to project members (concise)",
+    {},
+    withOpenProject(async (api) => {
+      const r = await api.get("/roles");
+      const els = r.data?._embedded?.elements ?? [];
+      const concise = els.map((role: any) => ({ id: role.id, name: role.name, href: role._links?.self?.href ?? null }));
+      return {
+        content: [
+          { type: "text", text: `Roles: ${concise.length}` },
+          { type: "text", text: JSON.stringify(concise) },
+        ],
+      };
+    })
+  );
+
+  registerTool(
+    "openproject-list-members",
+    "Lists members (users and groups) of a project with their roles (concise). Returns nextOffset when truncated.",
+    {
+      projectId: z.string().describe("The ID of the project"),
+      pageSize: pageSizeSchema.optional().describe("Number of members per page (max 100)"),
+      offset: offsetSchema.optional().describe("Page number to retrieve (1-indexed)"),
+    },
+    withOpenProject(async (api, { projectId, pageSize = 25, offset = 1 }: any) => {
+      const filters = filtersParam([apiFilter("project", "=", [projectId])]);
+      const r = await api.get("/memberships", { params: { filters, pageSize, offset } });
+      const concise = (r.data?._embedded?.elements ?? []).map(conciseMembership);
+      const { total, nextOffset } = collectionPaging(r.data, offset, pageSize);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Members of project ${projectId}: ${concise.length} of ${total ?? "unknown"} (page=${offset}, size=${pageSize}) nextOffset=${nextOffset ?? "none"}`,
+          },
+          { type: "text", text: JSON.stringify({ items: concise, total, nextOffset }) },
+        ],
+      };
+    })
+  );
+
+  registerTool(
+    "openproject-add-member",
+    "Adds a user or group (by ID, login, name or email) to a project with one or more roles. Supports dryRun.",
+    {
+      projectId: z.string().describe("The ID of the project"),
+      principal: z.string().describe("User or group ID, login, name or email"),
+      roles: z.array(z.string()).min(1).describe("Role names or IDs (e.g. [\"Member\"])"),
+      notificationMessage: z.string().optional().describe("Optional message included in the notification email"),
+      dryRun: z.boolean().optional().default(false).describe("If true, do not perform writes; return the planned change"),
+    },
+    withOpenProject(async (api, params: any) => {
+      const { projectId, principal, roles, notificationMessage, dryRun = false } = params;
+      const p = await resolvePrincipal(api, principal);
+      if (!p) return { content: [{ type: "text", text: `ERROR: user or group not found: ${principal}` }] };
+      const { hrefs, unresolved } = await resolveRoles(api, roles);
+      if (unresolved.length) {
+        return { content: [{ type: "text", text: `ERROR: unknown roles: ${unresolved.join(", ")}` }] };
+      }
+
+      const existing = await findMembership(api, projectId, p.id);
+      if (existing) {
+        return {
+          content: [
+            { type: "text", text: `ERROR: ${p.name} is already a member of project ${projectId} (membership ID: ${existing.id}); use openproject-update-member` },
+          ],
+        };
+      }
+
+      const plan = { action: "add", project: projectId, principal: p.name, rolesBefore: [], rolesAfter: hrefs.map((h) => h.title) };
+      if (dryRun) {
+        return {
+          content: [
+            { type: "text", text: `Dry run: would add ${p.name} to project ${projectId} as ${plan.rolesAfter.join(", ")}` },
+            { type: "text", text: JSON.stringify([plan]) },
+          ],
+        };
+      }
+
+      const payload: any = {
+        _links: {
+          principal: { href: p.href ?? `/api/v3/principals/${p.id}` },
+          project: { href: `/api/v3/projects/${projectId}` },
+          roles: hrefs.map((h) => ({ href: h.href })),
+        },
+      };
+      const meta = membershipMeta(notificationMessage);
+      if (meta) payload._meta = meta;
+
+      const response = await api.post("/memberships", payload);
+      return {
+        content: [
+          { type: "text", text: `Successfully added ${p.name} to project ${projectId} (membership ID: ${response.data.id})` },
+          { type: "text", text: JSON.stringify(conciseMembership(response.data)) },
+        ],
+      };
+    })
+  );
+
+  registerTool(
+    "openproject-update-member",
+    "Changes the roles of a project member (replaces the role set). Supports dryRun.",
+    {
+      projectId: z.string().describe("The ID of the project"),
+      principal: z.string().describe("User or group ID, login, name or email"),
+      roles: z.array(z.string()).min(1).describe("New role names or IDs"),
+      notificationMessage: z.string().optional().describe("Optional message included in the notification email"),
+      dryRun: z.boolean().optional().default(false).describe("If true, do not perform writes; return the planned change"),
+    },
+    withOpenProject(async (api, params: any) => {
+      const { projectId, principal, roles, notificationMessage, dryRun = false } = params;
+      const p = await resolvePrincipal(api, principal);
+      if (!p) return { content: [{ type: "text", text: `ERROR: user or group not found: ${principal}` }] };
+      const { hrefs, unresolved } = await resolveRoles(api, roles);
+      if (unresolved.length) {
+        return { content: [{ type: "text", text: `ERROR: unknown roles: ${unresolved.join(", ")}` }] };
+      }
+
+      const existing = await findMembership(api, projectId, p.id);
+      if (!existing) {
+        return { content: [{ type: "text", text: `ERROR: ${p.name} is not a member of project ${projectId}` }] };
+      }
+
+      const plan = {
+        action: "update",
+        project: projectId,
+        principal: p.name,
+        rolesBefore: conciseMembership(existing).roles,
+        rolesAfter: hrefs.map((h) => h.title),
+      };
+      if (dryRun) {
+        return {
+          content: [
+            { type: "text", text: `Dry run: would change roles of ${p.name} from ${plan.rolesBefore.join(", ") || "none"} to ${plan.rolesAfter.join(", ")}` },
+            { type: "text", text: JSON.stringify([plan]) },
+          ],
+        };
+      }
+
+      const payload: any = { _links: { roles: hrefs.map((h) => ({ href: h.href })) } };
+      const meta = membershipMeta(notificationMessage);
+      if (meta) payload._meta = meta;
+
+      const response = await api.patch(`/memberships/${existing.id}`, payload);
+      return {
+        content: [
+          { type: "text", text: `Successfully updated roles of ${p.name} in project ${projectId}` },
+          { type: "text", text: JSON.stringify(conciseMembership(response.data)) },
+        ],
+      };
+    })
+  );
+
+  registerTool(
+    "openproject-remove-member",
+    "Removes a user or group from a project. Supports dryRun. Two-phase: the first call returns a preview and a short-lived confirmationToken (or asks the user directly where the client supports elicitation); call again with the token to remove.",
+    {
+      projectId: z.string().describe("The ID of the project"),
+      principal: z.string().describe("User or group ID, login, name or email"),
+      dryRun: z.boolean().optional().default(false).describe("If true, do not perform writes; return the planned change"),
+      confirmationToken: z.string().optional().describe("Token from the preview returned by the first call"),
+    },
+    withOpenProject(async (api, params: any, context?: ToolContext) => {
+      const { projectId, principal, dryRun = false, confirmationToken } = params;
+      const p = await resolvePrincipal(api, principal);
+      if (!p) return { content: [{ type: "text", text: `ERROR: user or group not found: ${principal}` }] };
+
+      const existing = await findMembership(api, projectId, p.id);
+      if (!existing) {
+        return { content: [{ type: "text", text: `${p.name} is not a member of project ${projectId}. Nothing to remove.` }] };
+      }
+
+      const plan = { action: "remove", project: projectId, principal: p.name, rolesBefore: conciseMembership(existing).roles, rolesAfter: [] };
+      if (dryRun) {
+        return {
+          content: [
+            { type: "text", text: `Dry run: would remove ${p.name} (${plan.rolesBefore.join(", ")}) from project ${projectId}` },
+            { type: "text", text: JSON.stringify([plan]) },
+          ],
+        };
+      }
+
+      if (confirmationRequired()) {
+        const unconfirmed = await confirmDestructive(server.server, api, context, {
+          tool: "openproject-remove-member",
+          target: { projectId, membership: String(existing.id) },
+          token: confirmationToken,
+          preview: async () => ({
+            summary: `Remove ${p.name} from project ${projectId}`,
+            details: { project: projectId, principal: p.name, roles: plan.rolesBefore },
+          }),
+        });
+        if (unconfirmed) return unconfirmed;
+      }
+
+      await api.delete(`/memberships/${existing.id}`);
+      return {
+        content: [{ type: "text", text: `Successfully removed ${p.name} from project ${projectId}` }],
+      };
+    })
+  );
+
+  registerTool(
+    "openproject-recent-events",
+    "Lists changes recently pushed by OpenProject webhooks (work packages, projects, time entries, attachments), newest first. Answers questions like 'what changed in project X in the last hour' without polling.",
+    {
+      projectId: z.string().optional().describe("Only events of this project (ID or name)"),
+      types: z
+        .array(z.string())
+        .optional()
+        .describe("Event actions to include, e.g. work_package:updated; 'project:*' matches every action of a kind"),
+      sinceMinutes: z.number().int().positive().optional().describe("Only events received in the last N minutes"),
+      since: z.string().optional().describe("Only events received at or after this ISO timestamp"),
+      until: z.string().optional().describe("Only events received before this ISO timestamp"),
+      limit: z.number().int().min(1).max(500).optional().default(50).describe("Maximum number of events"),
+    },
+    withOpenProject(async (api, params: any, context?: ToolContext) => {
+      const { projectId, types, sinceMinutes, since, until, limit = 50 } = params;
+      const sinceDate = sinceMinutes ? new Date(Date.now() - sinceMinutes * 60_000) : since ? new Date(since) : undefined;
+      const untilDate = until ? new Date(until) : undefined;
+      if ((sinceDate && isNaN(sinceDate.getTime())) || (untilDate && isNaN(untilDate.getTime()))) {
+        return { content: [{ type: "text", text: "ERROR: since/until must be ISO timestamps" }] };
+      }
+
+      // the store holds every event of the instance; only show projects the caller's credential can
+      // read and, under a project scope, the allowed ones
+      const matching = await getWebhookEventStore().query({
+        projectId,
+        types,
+        since: sinceDate,
+        until: untilDate,
+        limit: Number.MAX_SAFE_INTEGER,
+      });
+      const inScope = projectScopeFilter(context);
+      const readable = new Map<string, boolean>();
+      for (const id of new Set(matching.map((e) => e.projectId).filter((id): id is string => !!id))) {
+        readable.set(id, (await projectReadable(api, id)) && (await inScope(id)));
+      }
+      const events = matching.filter((e) => e.projectId && readable.get(e.projectId)).slice(0, limit);
+      return {
+        content: [
+          { type: "text", text: `Found ${events.length} event(s)${projectId ? ` in project ${projectId}` : ""}` },
+          { type: "text", text: JSON.stringify(events) },
+        ],
+      };
+    })
+  );
+
+  registerTool(
+    "openproject-list-rules",
+    "Lists the automation rules evaluated on incoming webhook events, with how often and when each last fired. Optionally includes the recent firing log (dry runs and failures included).",
+    {
+      includeFirings: z.boolean().optional().default(false).describe("Include the recent firing log"),
+      limit: z.number().int().min(1).max(200).optional().default(50).describe("Maximum number of log entries"),
+    },
+    async (params: any): Promise<CallToolResult> => {
+      const { includeFirings = false, limit = 50 } = params;
+      const result: any = listRules();
+      if (includeFirings) result.firings = recentRuleFirings(limit);
+      const summary = result.file
+        ? `${result.rules.length} rule(s) loaded from ${result.file}${result.dryRun ? " (dry run)" : ""}`
+        : "No rules file configured (set OPENPROJECT_RULES_FILE)";
+      return {
+        content: [
+          { type: "text", text: summary },
+          { type: "text", text: JSON.stringify(result) },
+        ],
+      };
+    }
+  );
+
+  registerTool(
+    "openproject-audit-log",
+    "Queries the audit log of mutating tool calls made with your credential: tool, redacted parameters, acting user, target resource, outcome, OpenProject status and duration. Newest first.",
+    {
+      from: z.string().optional().describe("Start of the time range (ISO 8601)"),
+      to: z.string().optional().describe("End of the time range (ISO 8601)"),
+      tool: z.string().optional().describe("Tool name; a trailing * matches a prefix, e.g. openproject-delete-*"),
+      resource: z.string().optional().describe("Target resource, e.g. work_packages/12 or projects/3"),
+      limit: z.number().int().min(1).max(1000).optional().default(100).describe("Maximum number of entries"),
+    },
+    withOpenProject(async (api, params: any) => {
+      const log = getAuditLog();
+      if (!log) return { content: [{ type: "text", text: "Audit log is disabled (OPENPROJECT_AUDIT_LOG=none)" }] };
+      const { from, to, tool, resource, limit = 100 } = params;
+      for (const [name, value] of [["from", from], ["to", to]]) {
+        if (value && Number.isNaN(Date.parse(value))) return { content: [{ type: "text", text: `ERROR: ${name} is not a valid date` }] };
+      }
+      // clients only see their own calls; the admin HTTP route shows everyone's
+      const entries = await log.query({ from, to, tool, resource, limit, credentialId: getCredentialId(api) ?? "" });
+      return {
+        content: [
+          { type: "text", text: `Audit entries: ${entries.length}` },
+          { type: "text", text: JSON.stringify(entries) },
+        ],
+      };
+    })
+  );
+
   logger.info("MCP server configured with OpenProject tools");
   return server;
 };
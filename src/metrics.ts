@@ -0,0 +1,163 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+type Labels = Record<string, string>;
+
+const labelKey = (labels: Labels) => JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+const escapeLabel = (v: string) => v.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+const formatLabels = (labels: Labels, extra?: Labels) => {
+  const all = { ...labels, ...extra };
+  const parts = Object.entries(all).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return parts.length ? `{${parts.join(",")}}` : "";
+};
+
+interface Metric {
+  render(): string;
+}
+
+class Counter implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(private name: string, private help: string) {}
+
+  inc(labels: Labels = {}, n = 1) {
+    const key = labelKey(labels);
+    const entry = this.values.get(key);
+    if (entry) entry.value += n;
+    else this.values.set(key, { labels, value: n });
+  }
+
+  /** Sum over all series whose labels include `labels`. */
+  total(labels: Labels = {}) {
+    let sum = 0;
+    for (const { labels: l, value } of this.values.values()) {
+      if (Object.entries(labels).every(([k, v]) => l[k] === v)) sum += value;
+    }
+    return sum;
+  }
+
+  render() {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const { labels, value } of this.values.values()) lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    return lines.join("\n");
+  }
+}
+
+class Gauge implements Metric {
+  constructor(private name: string, private help: string, private collect: () => number) {}
+
+  render() {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`, `${this.name} ${this.collect()}`].join("\n");
+  }
+}
+
+class Histogram implements Metric {
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(private name: string, private help: string, private buckets: number[]) {}
+
+  observe(labels: Labels, value: number) {
+    const key = labelKey(labels);
+    let s = this.series.get(key);
+    if (!s) {
+      s = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, s);
+    }
+    this.buckets.forEach((b, i) => {
+      if (value <= b) s!.counts[i]++;
+    });
+    s.sum += value;
+    s.count++;
+  }
+
+  render() {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((b, i) => lines.push(`${this.name}_bucket${formatLabels(labels, { le: String(b) })} ${counts[i]}`));
+      lines.push(`${this.name}_bucket${formatLabels(labels, { le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines.join("\n");
+  }
+}
+
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+const registry: Metric[] = [];
+const register = <T extends Metric>(m: T) => {
+  registry.push(m);
+  return m;
+};
+
+/** Requests to the OpenProject API, per attempt (retries are observed individually). */
+export const openProjectRequestDuration = register(
+  new Histogram(
+    "openproject_http_request_duration_seconds",
+    "Duration of HTTP requests to the OpenProject API by method, route template and status",
+    DURATION_BUCKETS
+  )
+);
+export const openProjectRetries = register(
+  new Counter("openproject_http_retries_total", "Requests to the OpenProject API retried after 429/5xx")
+);
+export const etagCacheLookups = register(
+  new Counter("openproject_etag_cache_requests_total", "GET requests to OpenProject by ETag cache result (hit = 304 served from cache)")
+);
+register(
+  new Gauge("openproject_etag_cache_hit_ratio", "Share of OpenProject GET requests answered from the ETag cache", () => {
+    const hits = etagCacheLookups.total({ result: "hit" });
+    const all = etagCacheLookups.total();
+    return all ? hits / all : 0;
+  })
+);
+export const toolCalls = register(new Counter("mcp_tool_calls_total", "MCP tool invocations"));
+export const toolErrors = register(new Counter("mcp_tool_errors_total", "MCP tool invocations that returned or threw an error"));
+export const toolDuration = register(
+  new Histogram("mcp_tool_duration_seconds", "MCP tool latency by tool and outcome", DURATION_BUCKETS)
+);
+export const webhooksReceived = register(
+  new Counter("openproject_webhooks_received_total", "Accepted OpenProject webhook deliveries by action")
+);
+export const webhooksRejected = register(
+  new Counter("openproject_webhooks_rejected_total", "Rejected OpenProject webhook deliveries by reason")
+);
+
+/**
+ * Route template of an OpenProject API path for metric labels: query strings are dropped and
+ * numeric IDs (including schema IDs like 3-1) become ":id", keeping label cardinality bounded.
+ */
+export function routeTemplate(url?: string): string {
+  if (!url) return "unknown";
+  const pathOnly = url.replace(/^https?:\/\/[^/]+/, "").replace(/^\/api\/v\d+/, "").split("?")[0];
+  return pathOnly.replace(/\/\d+(-\d+)?(?=\/|$)/g, "/:id") || "/";
+}
+
+/**
+ * Run a tool call with call/error counters and a latency histogram. Results whose text starts
+ * with "ERROR:" count as errors.
+ */
+export async function instrumentToolCall(name: string, call: () => Promise<CallToolResult>): Promise<CallToolResult> {
+  const started = process.hrtime.bigint();
+  let outcome = "success";
+  try {
+    const result = await call();
+    const first = result?.content?.[0];
+    if (result?.isError || (first?.type === "text" && first.text.startsWith("ERROR:"))) outcome = "error";
+    return result;
+  } catch (err) {
+    outcome = "error";
+    throw err;
+  } finally {
+    toolCalls.inc({ tool: name });
+    if (outcome === "error") toolErrors.inc({ tool: name });
+    toolDuration.observe({ tool: name, outcome }, Number(process.hrtime.bigint() - started) / 1e9);
+  }
+}
+
+/**
+ * All metrics in the Prometheus text exposition format.
+ */
+export function renderMetrics(): string {
+  return `${registry.map((m) => m.render()).join("\n")}\n`;
+}
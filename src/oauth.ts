@@ -0,0 +1,184 @@
+import express from "express";
+import axios from "axios";
+import crypto from "crypto";
+import { logger } from "./logger.js";
+import { getErrorMessage } from "./helpers.js";
+import type { StoredToken, TokenStore } from "./tokenStore.js";
+
+export type OAuthSettings = {
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scope: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  openProjectUrl: string;
+};
+
+/**
+ * Read OAuth settings from env. Returns null unless OPENPROJECT_AUTH_MODE=oauth.
+ * OPENPROJECT_OAUTH_BASE_URL lets a local mock OAuth server stand in for OpenProject.
+ */
+export function oauthSettingsFromEnv(): OAuthSettings | null {
+  if (process.env.OPENPROJECT_AUTH_MODE !== "oauth") return null;
+  const openProjectUrl = process.env.OPENPROJECT_URL;
+  const clientId = process.env.OPENPROJECT_OAUTH_CLIENT_ID;
+  const redirectUri = process.env.OPENPROJECT_OAUTH_REDIRECT_URI;
+  if (!openProjectUrl || !clientId || !redirectUri) {
+    throw new Error(
+      "OAuth mode requires OPENPROJECT_URL, OPENPROJECT_OAUTH_CLIENT_ID and OPENPROJECT_OAUTH_REDIRECT_URI"
+    );
+  }
+  const base = (process.env.OPENPROJECT_OAUTH_BASE_URL || openProjectUrl).replace(/\/$/, "");
+  return {
+    clientId,
+    clientSecret: process.env.OPENPROJECT_OAUTH_CLIENT_SECRET,
+    redirectUri,
+    scope: process.env.OPENPROJECT_OAUTH_SCOPE || "api_v3",
+    authorizeUrl: `${base}/oauth/authorize`,
+    tokenUrl: `${base}/oauth/token`,
+    openProjectUrl,
+  };
+}
+
+/**
+ * Pending authorizations keyed by `state`, holding the PKCE verifier. Entries expire after 10 minutes.
+ */
+const pendingAuthorizations = new Map<string, { verifier: string; expiresAt: number }>();
+const PENDING_TTL_MS = 10 * 60_000;
+
+/**
+ * Refresh tokens this long before they expire, so a request doesn't race the expiry.
+ */
+const REFRESH_SKEW_MS = 60_000;
+
+/**
+ * In-flight refreshes per session key; concurrent requests share one refresh call.
+ */
+const refreshing = new Map<string, Promise<StoredToken | null>>();
+
+const base64url = (buf: Buffer) => buf.toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+async function requestToken(settings: OAuthSettings, form: Record<string, string>): Promise<StoredToken> {
+  const body = new URLSearchParams({ client_id: settings.clientId, ...form });
+  if (settings.clientSecret) body.set("client_secret", settings.clientSecret);
+  const r = await axios.post(settings.tokenUrl, body.toString(), {
+    headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+    timeout: 15_000,
+  });
+  const data = r.data ?? {};
+  if (!data.access_token) throw new Error("token endpoint returned no access_token");
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token ?? form.refresh_token,
+    expiresAt: typeof data.expires_in === "number" ? Date.now() + data.expires_in * 1000 : undefined,
+    scope: data.scope,
+    openProjectUrl: settings.openProjectUrl,
+  };
+}
+
+/**
+ * Return a valid token for a session key, refreshing it when it is (about to be) expired.
+ * Returns null for unknown sessions or when the refresh fails (the session is then dropped).
+ */
+export async function accessTokenFor(
+  settings: OAuthSettings,
+  store: TokenStore,
+  sessionKey: string
+): Promise<StoredToken | null> {
+  const token = await store.get(sessionKey);
+  if (!token) return null;
+  if (!token.expiresAt || token.expiresAt - REFRESH_SKEW_MS > Date.now()) return token;
+  if (!token.refreshToken) {
+    await store.delete(sessionKey);
+    return null;
+  }
+
+  let pending = refreshing.get(sessionKey);
+  if (!pending) {
+    pending = requestToken(settings, { grant_type: "refresh_token", refresh_token: token.refreshToken })
+      .then(async (fresh) => {
+        await store.set(sessionKey, fresh);
+        return fresh;
+      })
+      .catch(async (err) => {
+        logger.warn({ err: getErrorMessage(err) }, "OAuth token refresh failed; session must re-authorize");
+        await store.delete(sessionKey);
+        return null;
+      })
+      .finally(() => refreshing.delete(sessionKey));
+    refreshing.set(sessionKey, pending);
+  }
+  return pending;
+}
+
+/**
+ * Register the OAuth authorization-code flow (with PKCE):
+ * - GET /oauth/authorize redirects the browser to OpenProject's consent page
+ * - GET /oauth/callback exchanges the code, stores the tokens and returns an opaque session key
+ *   that MCP clients send as `Authorization: Bearer <sessionKey>` on /mcp
+ * - POST /oauth/logout drops the stored tokens for a session key
+ */
+export function registerOAuthRoutes(app: express.Express, settings: OAuthSettings, store: TokenStore) {
+  app.get("/oauth/authorize", (_req, res) => {
+    const now = Date.now();
+    for (const [state, entry] of pendingAuthorizations) {
+      if (entry.expiresAt < now) pendingAuthorizations.delete(state);
+    }
+
+    const state = base64url(crypto.randomBytes(24));
+    const verifier = base64url(crypto.randomBytes(32));
+    pendingAuthorizations.set(state, { verifier, expiresAt: now + PENDING_TTL_MS });
+
+    const url = new URL(settings.authorizeUrl);
+    url.searchParams.set("response_type", "code");
+    url.searchParams.set("client_id", settings.clientId);
+    url.searchParams.set("redirect_uri", settings.redirectUri);
+    url.searchParams.set("scope", settings.scope);
+    url.searchParams.set("state", state);
+    url.searchParams.set("code_challenge", base64url(crypto.createHash("sha256").update(verifier).digest()));
+    url.searchParams.set("code_challenge_method", "S256");
+    res.redirect(url.toString());
+  });
+
+  app.get("/oauth/callback", async (req, res) => {
+    const code = typeof req.query.code === "string" ? req.query.code : undefined;
+    const state = typeof req.query.state === "string" ? req.query.state : undefined;
+    if (req.query.error) {
+      return res.status(400).json({ ok: false, error: String(req.query.error) });
+    }
+    const pending = state ? pendingAuthorizations.get(state) : undefined;
+    if (!code || !state || !pending || pending.expiresAt < Date.now()) {
+      return res.status(400).json({ ok: false, error: "invalid_state" });
+    }
+    pendingAuthorizations.delete(state);
+
+    try {
+      const token = await requestToken(settings, {
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: settings.redirectUri,
+        code_verifier: pending.verifier,
+      });
+      const sessionKey = base64url(crypto.randomBytes(32));
+      await store.set(sessionKey, token);
+      logger.info("OAuth authorization completed, session created");
+      return res.status(200).json({
+        ok: true,
+        sessionKey,
+        usage: "Send 'Authorization: Bearer <sessionKey>' on requests to /mcp",
+      });
+    } catch (err) {
+      logger.warn({ err: getErrorMessage(err) }, "OAuth code exchange failed");
+      return res.status(502).json({ ok: false, error: "token_exchange_failed" });
+    }
+  });
+
+  app.post("/oauth/logout", async (req, res) => {
+    const sessionKey = /^Bearer\s+(.+)$/i.exec(req.header("authorization") ?? "")?.[1]?.trim();
+    if (sessionKey) await store.delete(sessionKey);
+    return res.status(200).json({ ok: true });
+  });
+
+  logger.info("OpenProject OAuth routes registered at /oauth/authorize and /oauth/callback");
+}
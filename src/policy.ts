@@ -0,0 +1,404 @@
+import type express from "express";
+import type { AxiosInstance } from "axios";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger.js";
+import {
+  contextConfig,
+  getOpenProjectApi,
+  getErrorMessage,
+  idFromHref,
+  isNotFoundError,
+  runInToolCallScope,
+  type ToolCallScope,
+  type ToolContext,
+} from "./helpers.js";
+
+/**
+ * What a deployment (env) or a client connection (smithery config) permits.
+ * A call must be permitted by every applicable policy, so client config can only narrow the env policy.
+ */
+export type Policy = {
+  readOnly?: boolean;
+  /** Tool names or glob patterns (e.g. "openproject-list-*"); when set, only matching tools are available. */
+  allowTools?: string[];
+  denyTools?: string[];
+  /** Project IDs or identifiers calls are scoped to. */
+  projects?: string[];
+};
+
+export const FORBIDDEN_BY_POLICY = "ERROR: forbidden by policy";
+
+const forbidden = (reason: string): CallToolResult => ({
+  content: [{ type: "text", text: `${FORBIDDEN_BY_POLICY}: ${reason}` }],
+});
+
+/**
+ * Tools that never change OpenProject. Everything else counts as mutating, so tools added
+ * later are hidden in read-only mode until they are listed here.
+ */
+const READ_ONLY_TOOLS = new Set([
+  "start-notification-stream",
+  "openproject-get-project",
+  "openproject-list-projects",
+  "openproject-list-projects-all",
+  "openproject-health",
+  "openproject-get-task",
+  "openproject-list-tasks",
+  "openproject-download-attachment",
+  "openproject-search-tasks",
+  "openproject-list-statuses",
+  "openproject-list-priorities",
+  "openproject-list-users",
+  "openproject-list-users-concise",
+  "openproject-list-time-entries",
+  "openproject-list-relations",
+  "openproject-get-task-tree",
+  "openproject-get-task-activities",
+  "openproject-list-queries",
+  "openproject-run-query",
+  "openproject-list-versions",
+  "openproject-version-progress",
+  "openproject-list-roles",
+  "openproject-list-members",
+  "openproject-recent-events",
+  "openproject-list-rules",
+  "openproject-audit-log",
+]);
+
+/** Tools that read instance-wide metadata only and are not subject to project scoping. */
+const PROJECT_AGNOSTIC_TOOLS = new Set([
+  "start-notification-stream",
+  "openproject-health",
+  "openproject-list-statuses",
+  "openproject-list-priorities",
+  "openproject-list-users",
+  "openproject-list-users-concise",
+  "openproject-list-roles",
+  "openproject-list-rules",
+  "openproject-audit-log",
+]);
+
+/**
+ * Listing tools that range over all projects when called without one; under a project scope they
+ * are not rejected but filter their results to the allowed projects (see projectScopeFilter).
+ */
+const SCOPE_FILTERED_TOOLS = new Set([
+  "openproject-list-projects",
+  "openproject-list-projects-all",
+  "openproject-list-tasks",
+  "openproject-recent-events",
+]);
+
+export const isMutatingTool = (name: string) => !READ_ONLY_TOOLS.has(name);
+
+const list = (value: unknown): string[] | undefined => {
+  if (value == null || value === "") return undefined;
+  const items = (Array.isArray(value) ? value : String(value).split(",")).map((v) => String(v).trim()).filter(Boolean);
+  return items.length ? items : undefined;
+};
+
+/**
+ * Build a policy from env-style keys (OPENPROJECT_READ_ONLY, OPENPROJECT_ALLOWED_TOOLS,
+ * OPENPROJECT_DENIED_TOOLS, OPENPROJECT_ALLOWED_PROJECTS); list values are arrays or comma-separated.
+ */
+export function policyFromConfig(config: Record<string, unknown> | undefined): Policy {
+  return {
+    readOnly: config?.OPENPROJECT_READ_ONLY === true || config?.OPENPROJECT_READ_ONLY === "true",
+    allowTools: list(config?.OPENPROJECT_ALLOWED_TOOLS),
+    denyTools: list(config?.OPENPROJECT_DENIED_TOOLS),
+    projects: list(config?.OPENPROJECT_ALLOWED_PROJECTS),
+  };
+}
+
+export const policyFromEnv = () => policyFromConfig(process.env);
+
+const globToRegExp = (glob: string) =>
+  new RegExp(`^${glob.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".")}$`);
+
+const matchesAny = (name: string, patterns: string[]) => patterns.some((p) => globToRegExp(p).test(name));
+
+/**
+ * Whether a tool is available at all under a policy (read-only mode and allow/deny lists).
+ */
+export function toolPermitted(policy: Policy, name: string): boolean {
+  if (policy.readOnly && isMutatingTool(name)) return false;
+  if (policy.denyTools && matchesAny(name, policy.denyTools)) return false;
+  if (policy.allowTools && !matchesAny(name, policy.allowTools)) return false;
+  return true;
+}
+
+/** Projects, work packages and other resources (resolved via lookup) a call or request names. */
+type Targets = { projects: string[]; workPackages: string[]; lookups: string[] };
+
+const TARGET_PATH = /^\/(projects|work_packages|time_entries|versions|relations|memberships|attachments|queries)\/([^/?]+)/;
+
+/**
+ * Add the resource an API path names (e.g. /work_packages/12/activities); false when it names none.
+ */
+function addPathTarget(targets: Targets, path: string): boolean {
+  const m = TARGET_PATH.exec(path.replace(/^https?:\/\/[^/]+/, "").replace(/^\/api\/v\d+/, ""));
+  if (!m) return false;
+  if (m[1] === "projects") targets.projects.push(m[2]);
+  else if (m[1] === "work_packages") targets.workPackages.push(m[2]);
+  else targets.lookups.push(`/${m[1]}/${m[2]}`);
+  return true;
+}
+
+/**
+ * Add the project or work package a HAL `_links` object points to; false when it points to neither.
+ */
+function addLinkTargets(targets: Targets, links: any): boolean {
+  const project = links?.project?.href ?? links?.definingProject?.href;
+  if (project) targets.projects.push(idFromHref(project) as string);
+  const wp = [links?.workPackage, links?.entity, links?.from, links?.container]
+    .map((l) => l?.href)
+    .find((href) => typeof href === "string" && href.includes("/work_packages/"));
+  if (wp) targets.workPackages.push(idFromHref(wp) as string);
+  return !!(project || wp);
+}
+
+/** Project IDs of the targets, or null when some target cannot be attributed to a project. */
+async function resolveTargets(api: AxiosInstance, targets: Targets): Promise<string[] | null> {
+  for (const path of targets.lookups) {
+    const r = await api.get(path);
+    if (!addLinkTargets(targets, r.data?._links)) return null;
+  }
+  for (const id of new Set(targets.workPackages)) {
+    const r = await api.get(`/work_packages/${id}`);
+    targets.projects.push(idFromHref(r.data?._links?.project?.href) as string);
+  }
+  return targets.projects.length ? [...new Set(targets.projects)] : null;
+}
+
+const isNumericId = (value: unknown) => /^\d+$/.test(String(value));
+
+/**
+ * Project IDs a tool call targets, resolved from its parameters (projectId, work package IDs
+ * including bulk ops and sync items, time entries, versions, relations, queries and attachment
+ * paths). Returns null when the call names no project, i.e. would range over all projects.
+ */
+async function targetProjects(api: AxiosInstance, params: any): Promise<string[] | null> {
+  const targets: Targets = { projects: [], workPackages: [], lookups: [] };
+
+  if (params.projectId) targets.projects.push(String(params.projectId));
+  for (const key of ["taskId", "workPackageId", "fromId", "toId"]) {
+    if (params[key]) targets.workPackages.push(String(params[key]));
+  }
+  // create-task also accepts a parent subject; the project then comes from projectId
+  if (params.parentId && isNumericId(params.parentId)) targets.workPackages.push(String(params.parentId));
+  for (const id of params.taskIds ?? []) targets.workPackages.push(String(id));
+  for (const op of params.ops ?? []) {
+    if (op?.id != null) targets.workPackages.push(String(op.id));
+    if (op?.projectId != null) targets.projects.push(String(op.projectId));
+  }
+  for (const item of Array.isArray(params.itemsToPush) ? params.itemsToPush : []) {
+    if (item?.id != null) targets.workPackages.push(String(item.id));
+  }
+  if (params.timeEntryId) targets.lookups.push(`/time_entries/${params.timeEntryId}`);
+  if (params.versionId) targets.lookups.push(`/versions/${params.versionId}`);
+  if (params.version && isNumericId(params.version)) targets.lookups.push(`/versions/${params.version}`);
+  if (params.relationId) targets.lookups.push(`/relations/${params.relationId}`);
+  if (params.query && isNumericId(params.query)) targets.lookups.push(`/queries/${params.query}`);
+  for (const path of [params.apiPath, params.attachmentPath]) {
+    if (typeof path === "string" && !addPathTarget(targets, path)) return null;
+  }
+  return resolveTargets(api, targets);
+}
+
+/**
+ * Project IDs a write request to OpenProject targets: from its path (/work_packages/12, ...) or,
+ * for collection endpoints (POST /versions, ...), from the links in its body. Null when unknown.
+ */
+async function writeTargetProjects(api: AxiosInstance, url: string, data: unknown): Promise<string[] | null> {
+  const targets: Targets = { projects: [], workPackages: [], lookups: [] };
+  if (!addPathTarget(targets, url) && !addLinkTargets(targets, (data as any)?._links)) return null;
+  return resolveTargets(api, targets);
+}
+
+/** The first target outside one of the scopes, or null when all are allowed. */
+async function firstOutsideScope(api: AxiosInstance, scopes: string[][], targets: string[]) {
+  for (const scope of scopes) {
+    for (const project of targets) {
+      if (!(await projectPermitted(api, scope, project))) return project;
+    }
+  }
+  return null;
+}
+
+/**
+ * Thrown for a write request outside the allowed projects; tool wrappers report it as
+ * "ERROR: forbidden by policy: ...".
+ */
+export class ForbiddenByPolicyError extends Error {
+  constructor(reason: string) {
+    super(`forbidden by policy: ${reason}`);
+    this.name = "ForbiddenByPolicyError";
+  }
+}
+
+/**
+ * Whether a project (ID or identifier) is in the allowed set; both forms of the project are compared.
+ */
+export async function projectPermitted(api: AxiosInstance, allowed: string[], project: string): Promise<boolean> {
+  const wanted = allowed.map((p) => p.toLowerCase());
+  if (wanted.includes(project.toLowerCase())) return true;
+  try {
+    const r = await api.get(`/projects/${project}`);
+    return [String(r.data?.id ?? ""), String(r.data?.identifier ?? "")].some((v) => wanted.includes(v.toLowerCase()));
+  } catch (err) {
+    if (isNotFoundError(err)) return false;
+    throw err;
+  }
+}
+
+/** Policies for a call: the env policy plus the client's connection config (smithery configSchema). */
+const policiesFor = (base: Policy, context?: ToolContext): Policy[] => {
+  const fromClient = context?.authInfo?.extra?.policy as Policy | undefined;
+  return fromClient ? [base, fromClient] : [base];
+};
+
+/**
+ * Check the projects a call targets against the project scopes of the policies.
+ * Returns the reason for a rejection, or null when allowed.
+ */
+async function projectScopeError(
+  policies: Policy[],
+  label: string,
+  params: any,
+  context?: ToolContext,
+  filtersResults = false
+) {
+  const scopes = policies.map((p) => p.projects).filter((p): p is string[] => !!p);
+  if (!scopes.length) return null;
+
+  const api = getOpenProjectApi(contextConfig(context));
+  // without credentials the call reports missing configuration itself
+  if (!api) return null;
+  const targets = await targetProjects(api, params ?? {});
+  if (!targets) return filtersResults ? null : `${label} must be scoped to an allowed project (pass projectId)`;
+  const outside = await firstOutsideScope(api, scopes, targets);
+  return outside ? `project ${outside} is outside the allowed projects` : null;
+}
+
+/**
+ * Request hook enforcing the project scopes on every write a tool call sends to OpenProject,
+ * whatever parameter named its target. Null when no policy is scoped to projects.
+ */
+export function scopedWrites(policies: Policy[]): ToolCallScope | null {
+  const scopes = policies.map((p) => p.projects).filter((p): p is string[] => !!p);
+  if (!scopes.length) return null;
+  return {
+    beforeWrite: async (api, method, url, data) => {
+      const targets = await writeTargetProjects(api, url, data);
+      const request = `${method.toUpperCase()} ${url.split("?")[0]}`;
+      if (!targets) throw new ForbiddenByPolicyError(`cannot verify the project of ${request}`);
+      const outside = await firstOutsideScope(api, scopes, targets);
+      if (outside) throw new ForbiddenByPolicyError(`${request} targets project ${outside}, outside the allowed projects`);
+    },
+  };
+}
+
+/**
+ * Check a tool call against the policies. Returns a "forbidden by policy" result, or null when allowed.
+ */
+export async function checkToolCall(policies: Policy[], name: string, params: any, context?: ToolContext) {
+  if (!policies.every((p) => toolPermitted(p, name))) return forbidden(`tool ${name} is not available`);
+  if (PROJECT_AGNOSTIC_TOOLS.has(name)) return null;
+  const reason = await projectScopeError(policies, name, params, context, SCOPE_FILTERED_TOOLS.has(name));
+  return reason ? forbidden(reason) : null;
+}
+
+/**
+ * Enforce project scoping on a resource read (work packages, projects, saved queries);
+ * throws a "forbidden by policy" error for targets outside the allowed projects.
+ */
+export async function assertResourcePermitted(context: ToolContext | undefined, params: Record<string, unknown>) {
+  const reason = await projectScopeError(policiesFor(policyFromEnv(), context), "resource", params, context);
+  if (reason) throw new Error(`${FORBIDDEN_BY_POLICY}: ${reason}`);
+}
+
+/**
+ * Predicate for filtering listed results (projects, work packages, events) by the project scopes
+ * of the call; results without a project are dropped when scoped. Lookups are memoized per filter.
+ */
+export function projectScopeFilter(context: ToolContext | undefined): (projectId: string | null) => Promise<boolean> {
+  const scopes = policiesFor(policyFromEnv(), context)
+    .map((p) => p.projects)
+    .filter((p): p is string[] => !!p);
+  if (!scopes.length) return async () => true;
+  const api = getOpenProjectApi(contextConfig(context));
+  const seen = new Map<string, Promise<boolean>>();
+  const permitted = async (projectId: string) => {
+    for (const scope of scopes) if (!(await projectPermitted(api as AxiosInstance, scope, projectId))) return false;
+    return true;
+  };
+  return (projectId) => {
+    if (!api || !projectId) return Promise.resolve(false);
+    if (!seen.has(projectId)) seen.set(projectId, permitted(projectId));
+    return seen.get(projectId) as Promise<boolean>;
+  };
+}
+
+/**
+ * Connection config sent by Smithery (and other launchers) as a base64-encoded JSON `config`
+ * query parameter, following the configSchema in smithery.yaml.
+ */
+export function connectionConfig(req: express.Request): Record<string, unknown> | null {
+  const raw = req.query?.config;
+  if (typeof raw !== "string" || !raw) return null;
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, "base64").toString("utf8"));
+    return parsed && typeof parsed === "object" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/** The client policy clientPolicy() attached to a request, if any. */
+export const requestPolicy = (req: express.Request): Policy | undefined =>
+  (req as express.Request & { auth?: AuthInfo }).auth?.extra?.policy as Policy | undefined;
+
+/**
+ * Express middleware attaching the policy from the client's connection config to `req.auth`,
+ * where tool calls pick it up (next to the env policy, which it can only narrow).
+ */
+export function clientPolicy() {
+  return (req: express.Request, _res: express.Response, next: express.NextFunction) => {
+    const config = connectionConfig(req);
+    if (config) {
+      const policy = policyFromConfig(config);
+      const r = req as express.Request & { auth?: AuthInfo };
+      const auth: AuthInfo = r.auth ?? { token: "", clientId: "anonymous", scopes: [] };
+      r.auth = { ...auth, extra: { ...auth.extra, policy } };
+    }
+    next();
+  };
+}
+
+/**
+ * Run a tool call (of a tool the env policy permits) under the policies: tool lists, project scope
+ * and the client's own policy are checked first, and every write the call sends to OpenProject is
+ * checked against the project scopes.
+ */
+export async function guardToolCall(
+  policy: Policy,
+  name: string,
+  params: any,
+  context: ToolContext | undefined,
+  call: () => Promise<CallToolResult>
+): Promise<CallToolResult> {
+  const policies = policiesFor(policy, context);
+  try {
+    const rejection = await checkToolCall(policies, name, params, context);
+    if (rejection) {
+      logger.info({ tool: name }, "Tool call rejected by policy");
+      return rejection;
+    }
+  } catch (err) {
+    // a scope that cannot be verified is not granted
+    return forbidden(`could not verify project scope: ${getErrorMessage(err)}`);
+  }
+  const writes = scopedWrites(policies);
+  return writes ? runInToolCallScope(writes, call) : call();
+}
@@ -0,0 +1,174 @@
+import { logger } from "./logger.js";
+
+const envInt = (name: string, fallback: number) => {
+  const v = parseFloat(process.env[name] ?? "");
+  return Number.isFinite(v) && v > 0 ? v : fallback;
+};
+
+/**
+ * Thrown instead of calling OpenProject while the circuit breaker of its host is open.
+ */
+export class CircuitOpenError extends Error {
+  constructor(host: string, failures: number, retryInMs: number) {
+    super(
+      `OpenProject at ${host} is unavailable: circuit open after ${failures} consecutive server errors; retrying in ${Math.ceil(retryInMs / 1000)}s`
+    );
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * Per-host governor: a token bucket (rate), a semaphore (max in flight), a shared pause
+ * honoring Retry-After, and a circuit breaker that opens after consecutive 5xx/network failures.
+ */
+export class HostGovernor {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private inFlight = 0;
+  private waiting: Array<() => void> = [];
+  private pausedUntil = 0;
+  private failures = 0;
+  private openUntil = 0;
+  private halfOpenTrial = false;
+  private throttled = 0;
+
+  constructor(
+    readonly host: string,
+    private rps = envInt("OPENPROJECT_RATE_LIMIT_RPS", 10),
+    private burst = envInt("OPENPROJECT_RATE_LIMIT_BURST", 20),
+    private maxInFlight = envInt("OPENPROJECT_MAX_IN_FLIGHT", 8),
+    private breakerThreshold = envInt("OPENPROJECT_BREAKER_THRESHOLD", 5),
+    private breakerCooldownMs = envInt("OPENPROJECT_BREAKER_COOLDOWN_SEC", 30) * 1000
+  ) {
+    this.tokens = burst;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.rps);
+    this.lastRefill = now;
+  }
+
+  private checkBreaker() {
+    if (!this.openUntil) return;
+    const now = Date.now();
+    if (now < this.openUntil) throw new CircuitOpenError(this.host, this.failures, this.openUntil - now);
+    // cooldown elapsed: let a single trial request through (half-open)
+    if (this.halfOpenTrial) throw new CircuitOpenError(this.host, this.failures, this.breakerCooldownMs);
+    this.halfOpenTrial = true;
+  }
+
+  /**
+   * Wait for a rate token and an in-flight slot. Throws CircuitOpenError while the breaker is open.
+   * Every successful acquire must be paired with release().
+   */
+  async acquire(): Promise<void> {
+    this.checkBreaker();
+    for (;;) {
+      const pause = this.pausedUntil - Date.now();
+      if (pause > 0) {
+        this.throttled++;
+        await sleep(pause);
+        continue;
+      }
+      this.refill();
+      if (this.tokens < 1) {
+        this.throttled++;
+        await sleep(Math.ceil(((1 - this.tokens) / this.rps) * 1000));
+        continue;
+      }
+      if (this.inFlight >= this.maxInFlight) {
+        this.throttled++;
+        await new Promise<void>((resolve) => this.waiting.push(resolve));
+        continue;
+      }
+      this.tokens -= 1;
+      this.inFlight++;
+      return;
+    }
+  }
+
+  release() {
+    this.inFlight = Math.max(0, this.inFlight - 1);
+    this.waiting.shift()?.();
+  }
+
+  /** Hold back every request to this host until the given time (from Retry-After). */
+  pause(ms: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  /** Record the outcome of a request for the circuit breaker; status undefined means a network error. */
+  record(status?: number) {
+    const failed = status === undefined || status >= 500;
+    if (!failed) {
+      if (this.openUntil) logger.info({ host: this.host }, "OpenProject circuit closed");
+      this.failures = 0;
+      this.openUntil = 0;
+      this.halfOpenTrial = false;
+      return;
+    }
+    this.failures++;
+    if (this.halfOpenTrial || this.failures >= this.breakerThreshold) {
+      if (!this.openUntil || this.halfOpenTrial) {
+        logger.warn({ host: this.host, failures: this.failures }, "OpenProject circuit opened");
+      }
+      this.openUntil = Date.now() + this.breakerCooldownMs;
+      this.halfOpenTrial = false;
+    }
+  }
+
+  state() {
+    this.refill();
+    const now = Date.now();
+    return {
+      host: this.host,
+      tokens: Math.floor(this.tokens),
+      rps: this.rps,
+      burst: this.burst,
+      inFlight: this.inFlight,
+      maxInFlight: this.maxInFlight,
+      queued: this.waiting.length,
+      throttled: this.throttled,
+      pausedForMs: Math.max(0, this.pausedUntil - now),
+      circuit: !this.openUntil ? "closed" : now < this.openUntil ? "open" : "half-open",
+      consecutiveFailures: this.failures,
+    };
+  }
+}
+
+const sleep = (ms: number) => new Promise((res) => setTimeout(res, ms));
+
+const governors = new Map<string, HostGovernor>();
+
+/**
+ * Governor shared by every credential talking to the same OpenProject host.
+ */
+export function governorFor(baseURL: string): HostGovernor {
+  const host = new URL(baseURL).host;
+  let governor = governors.get(host);
+  if (!governor) {
+    governor = new HostGovernor(host);
+    governors.set(host, governor);
+  }
+  return governor;
+}
+
+/**
+ * Limiter state of every known OpenProject host (for health output).
+ */
+export function limiterState() {
+  return [...governors.values()].map((g) => g.state());
+}
+
+/**
+ * Delay before retrying a 429/5xx: Retry-After (seconds or HTTP date) when present, capped at
+ * 60s, otherwise exponential backoff with jitter.
+ */
+export function retryDelayMs(retryAfter: string | undefined, attempt: number): number {
+  if (retryAfter) {
+    const seconds = /^\d+$/.test(retryAfter.trim()) ? parseInt(retryAfter, 10) * 1000 : Date.parse(retryAfter) - Date.now();
+    if (Number.isFinite(seconds)) return Math.min(Math.max(seconds, 0), 60_000);
+  }
+  return Math.min(Math.pow(2, attempt) * 100, 10_000) + Math.floor(Math.random() * 100);
+}
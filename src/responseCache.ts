@@ -0,0 +1,234 @@
+import { logger } from "./logger.js";
+import type { OpenProjectEvent } from "./events.js";
+
+/**
+ * A cached GET response body with its validator.
+ */
+export type CachedResponse = { etag: string | null; data: unknown; storedAt: number };
+
+/**
+ * Storage for cached OpenProject responses. Invalidation works through per-resource generation
+ * counters that are part of every key: bumping a generation orphans all entries built on it,
+ * which then age out through the LRU/TTL bounds. Only get/set/incr are needed, so a shared
+ * Redis-compatible server invalidates across replicas.
+ */
+export interface ResponseCacheBackend {
+  get(key: string): Promise<CachedResponse | null>;
+  set(key: string, value: CachedResponse, ttlMs: number): Promise<void>;
+  generations(resources: string[]): Promise<number[]>;
+  bump(resources: string[]): Promise<void>;
+}
+
+/**
+ * Default backend: LRU map bounded by entry count and by the total size of the stored bodies
+ * (serialized JSON bytes); entries expire after their TTL.
+ */
+export class InMemoryResponseCache implements ResponseCacheBackend {
+  private entries = new Map<string, { value: CachedResponse; expires: number; bytes: number }>();
+  private gens = new Map<string, number>();
+  private bytes = 0;
+
+  constructor(private maxEntries = 1000, private maxBytes = 50 * 1024 * 1024) {}
+
+  async get(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    this.remove(key);
+    if (entry.expires <= Date.now()) return null;
+    // refresh LRU position
+    this.entries.set(key, entry);
+    this.bytes += entry.bytes;
+    // callers may mutate response bodies; never hand out the stored object
+    return { ...entry.value, data: structuredClone(entry.value.data) };
+  }
+
+  async set(key: string, value: CachedResponse, ttlMs: number) {
+    this.remove(key);
+    const bytes = Buffer.byteLength(JSON.stringify(value.data) ?? "");
+    // a single body above the bound would evict everything else and still not fit
+    if (bytes > this.maxBytes) return;
+    this.entries.set(key, { value, expires: Date.now() + ttlMs, bytes });
+    this.bytes += bytes;
+    while (this.entries.size > this.maxEntries || this.bytes > this.maxBytes) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.remove(oldest);
+    }
+  }
+
+  private remove(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.bytes -= entry.bytes;
+  }
+
+  async generations(resources: string[]) {
+    return resources.map((r) => this.gens.get(r) ?? 0);
+  }
+
+  async bump(resources: string[]) {
+    for (const r of resources) this.gens.set(r, (this.gens.get(r) ?? 0) + 1);
+  }
+
+  get size() {
+    return this.entries.size;
+  }
+
+  /** Serialized size of the stored bodies. */
+  get byteSize() {
+    return this.bytes;
+  }
+}
+
+/**
+ * Redis-compatible backend (Redis, Valkey, KeyDB, ...) shared by all replicas. Bounded by the
+ * per-entry TTL; configure maxmemory-policy allkeys-lru on the server for a size bound.
+ */
+export class RedisResponseCache implements ResponseCacheBackend {
+  constructor(private redis: any, private prefix = "mcp-openproject:cache:") {}
+
+  async get(key: string) {
+    const raw = await this.redis.get(`${this.prefix}${key}`);
+    return raw ? (JSON.parse(raw) as CachedResponse) : null;
+  }
+
+  async set(key: string, value: CachedResponse, ttlMs: number) {
+    await this.redis.set(`${this.prefix}${key}`, JSON.stringify(value), "PX", ttlMs);
+  }
+
+  async generations(resources: string[]) {
+    if (!resources.length) return [];
+    const values: (string | null)[] = await this.redis.mget(resources.map((r) => `${this.prefix}gen:${r}`));
+    return values.map((v) => (v ? parseInt(v, 10) : 0));
+  }
+
+  async bump(resources: string[]) {
+    const pipeline = this.redis.pipeline();
+    for (const r of resources) pipeline.incr(`${this.prefix}gen:${r}`);
+    await pipeline.exec();
+  }
+}
+
+let backend: ResponseCacheBackend | null = null;
+
+const enabled = () => process.env.OPENPROJECT_CACHE !== "none";
+export const cacheTtlMs = () => parseInt(process.env.OPENPROJECT_CACHE_TTL_SEC || "300", 10) * 1000;
+/** Within this window a cached body is served without asking OpenProject; afterwards it is revalidated via ETag. */
+export const cacheFreshMs = () => parseInt(process.env.OPENPROJECT_CACHE_FRESH_SEC || "0", 10) * 1000;
+
+/** In-memory backend bounded by OPENPROJECT_CACHE_MAX_ENTRIES and OPENPROJECT_CACHE_MAX_BYTES. */
+const inMemoryCache = () =>
+  new InMemoryResponseCache(
+    parseInt(process.env.OPENPROJECT_CACHE_MAX_ENTRIES || "1000", 10) || 1000,
+    parseInt(process.env.OPENPROJECT_CACHE_MAX_BYTES || "", 10) || 50 * 1024 * 1024
+  );
+
+/**
+ * Select the backend from OPENPROJECT_CACHE ("memory", "redis" or "none"). Redis uses
+ * OPENPROJECT_CACHE_REDIS_URL and the optional ioredis package; an unreachable server (or a
+ * missing package) falls back to memory.
+ */
+export async function initResponseCache(): Promise<ResponseCacheBackend | null> {
+  const kind = process.env.OPENPROJECT_CACHE || "memory";
+  if (kind === "none") {
+    backend = null;
+    return backend;
+  }
+  if (kind === "redis") {
+    try {
+      const { Redis } = await import("ioredis");
+      const redis = new Redis(process.env.OPENPROJECT_CACHE_REDIS_URL || "redis://127.0.0.1:6379", {
+        lazyConnect: true,
+        maxRetriesPerRequest: 1,
+      });
+      await redis.connect();
+      redis.on("error", (err: Error) => logger.warn({ err: err.message }, "Response cache Redis error"));
+      backend = new RedisResponseCache(redis);
+      logger.info("Response cache using Redis");
+      return backend;
+    } catch (err) {
+      logger.error({ err: (err as Error).message }, "Response cache Redis unavailable, using memory");
+    }
+  }
+  backend = inMemoryCache();
+  return backend;
+}
+
+/**
+ * The active backend (in-memory until initResponseCache() selects another), or null when disabled.
+ */
+export function getResponseCache(): ResponseCacheBackend | null {
+  if (!enabled()) return null;
+  if (!backend) backend = inMemoryCache();
+  return backend;
+}
+
+/**
+ * Changes to these resources also change what their parents report (spent time, attachments, ...);
+ * saved query results are work package lists. Applied transitively.
+ */
+const DEPENDENT_RESOURCES: Record<string, string[]> = {
+  work_packages: ["queries"],
+  time_entries: ["work_packages"],
+  relations: ["work_packages"],
+  attachments: ["work_packages"],
+  activities: ["work_packages"],
+  memberships: ["projects"],
+  versions: ["projects", "work_packages"],
+};
+
+/**
+ * Resource collections an API path touches, e.g. /projects/3/work_packages -> [projects, work_packages].
+ */
+export function resourcesOf(path: string): string[] {
+  const segments = path
+    .replace(/^https?:\/\/[^/]+/, "")
+    .replace(/^\/api\/v\d+/, "")
+    .split("?")[0]
+    .split("/")
+    .filter((s) => s && !/^\d/.test(s) && /^[a-z_]+$/.test(s) && s !== "form");
+  return [...new Set(segments)];
+}
+
+/**
+ * Cache key for a GET: credential identity, the generations of every resource the path touches,
+ * the path and its query params (sorted, so equivalent requests share an entry).
+ */
+export async function responseCacheKey(cache: ResponseCacheBackend, credentialId: string, url: string, params?: unknown) {
+  const path = url.split("?")[0];
+  const query = new URLSearchParams(url.split("?")[1] ?? "");
+  if (params && typeof params === "object") {
+    for (const [k, v] of Object.entries(params)) if (v !== undefined) query.append(k, String(v));
+  }
+  query.sort();
+  const resources = resourcesOf(path);
+  const gens = await cache.generations(resources);
+  return `${credentialId}|${resources.map((r, i) => `${r}@${gens[i]}`).join(",")}|${path}?${query.toString()}`;
+}
+
+/**
+ * Invalidate cached responses of the resources an API path touches (plus dependent resources).
+ */
+export async function invalidateResponses(path: string) {
+  const cache = getResponseCache();
+  // form endpoints only validate; nothing changes
+  if (!cache || /\/form(\?|$)/.test(path)) return;
+  const all = new Set(resourcesOf(path));
+  for (const r of all) for (const dependent of DEPENDENT_RESOURCES[r] ?? []) all.add(dependent);
+  try {
+    await cache.bump([...all]);
+  } catch (err) {
+    logger.warn({ err: (err as Error).message, resources: [...all] }, "Response cache invalidation failed");
+  }
+}
+
+/**
+ * Invalidate cached responses affected by a webhook event.
+ */
+export async function invalidateForEvent(event: OpenProjectEvent) {
+  const collection = { work_package: "work_packages", project: "projects", time_entry: "time_entries", attachment: "attachments" }[
+    event.kind
+  ];
+  await invalidateResponses(`/${collection}`);
+}
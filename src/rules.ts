@@ -0,0 +1,396 @@
+import fs from "fs";
+import { z } from "zod";
+import { parse as parseYaml } from "yaml";
+import type { AxiosInstance } from "axios";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger.js";
+import type { OpenProjectEvent } from "./events.js";
+import {
+  getOpenProjectApi,
+  getErrorMessage,
+  idFromHref,
+  findCustomFieldKey,
+  getWorkPackageSchema,
+  buildWorkPackageUpdate,
+  addWorkPackageComment,
+  patchWithConflictRetry,
+  runInToolCallScope,
+  type ToolCallScope,
+} from "./helpers.js";
+import { ForbiddenByPolicyError, policyFromEnv, scopedWrites } from "./policy.js";
+import { auditToolCall } from "./audit.js";
+
+const conditionValue = z.union([z.string(), z.number(), z.boolean(), z.array(z.union([z.string(), z.number()]))]);
+
+const ruleSchema = z.object({
+  name: z.string().min(1),
+  /** Event actions the rule reacts to; "work_package:*" style wildcards are allowed. */
+  on: z.array(z.string()).default(["work_package:created", "work_package:updated"]),
+  match: z
+    .object({
+      project: conditionValue.optional(),
+      type: conditionValue.optional(),
+      status: conditionValue.optional(),
+      priority: conditionValue.optional(),
+      assignee: conditionValue.optional(),
+      author: conditionValue.optional(),
+      /** Regular expression tested against the subject (case-insensitive). */
+      subject: z.string().optional(),
+      customFields: z.record(conditionValue).optional(),
+      /** Fields that must differ from the last event seen for the work package. */
+      changed: z.array(z.string()).optional(),
+    })
+    .default({}),
+  actions: z
+    .array(
+      z.union([
+        z.object({ update: z.record(z.any()) }),
+        z.object({ comment: z.union([z.string(), z.object({ text: z.string(), internal: z.boolean().optional() })]) }),
+      ])
+    )
+    .min(1),
+  enabled: z.boolean().default(true),
+  dryRun: z.boolean().default(false),
+});
+
+export type Rule = z.infer<typeof ruleSchema>;
+type RuleAction = Rule["actions"][number];
+
+const rulesFileSchema = z.union([z.array(ruleSchema), z.object({ rules: z.array(ruleSchema) })]);
+
+export type RuleFiring = {
+  rule: string;
+  at: string;
+  eventId: string;
+  action: string;
+  workPackageId: string | null;
+  outcome: "applied" | "dry_run" | "error";
+  actions: RuleAction[];
+  error?: string;
+};
+
+let rules: Rule[] = [];
+let rulesFile: string | null = null;
+const firings: RuleFiring[] = [];
+const FIRINGS_MAX = 200;
+const lastFiring = new Map<string, RuleFiring>();
+const fireCount = new Map<string, number>();
+
+/**
+ * Field values last seen per work package, for `match.changed`. Bounded; oldest evicted first.
+ */
+const snapshots = new Map<string, Record<string, string | null>>();
+const SNAPSHOTS_MAX = 5000;
+const TRACKED_FIELDS = [
+  "subject",
+  "status",
+  "type",
+  "priority",
+  "assignee",
+  "responsible",
+  "version",
+  "category",
+  "startDate",
+  "dueDate",
+  "percentageDone",
+];
+
+/**
+ * Loop protection: lockVersions of work packages produced (or already handled) by rule actions.
+ * Webhooks for those versions are the rules' own edits and are not evaluated again.
+ */
+const selfWrites = new Map<string, { lockVersions: Set<number>; expires: number }>();
+const SELF_WRITE_TTL_MS = 10 * 60_000;
+/** Backstop against rules re-triggering each other: a rule fires at most once per work package per cooldown. */
+const cooldowns = new Map<string, number>();
+const COOLDOWN_MS = () => parseInt(process.env.OPENPROJECT_RULES_COOLDOWN_SEC || "60", 10) * 1000;
+
+const globalDryRun = () => process.env.OPENPROJECT_RULES_DRY_RUN === "true";
+
+/**
+ * Parse a rules file (YAML or JSON, by extension) into validated rules. Throws on invalid content.
+ */
+export function parseRulesFile(file: string): Rule[] {
+  const text = fs.readFileSync(file, "utf8");
+  const raw = /\.json$/i.test(file) ? JSON.parse(text) : parseYaml(text);
+  const parsed = rulesFileSchema.parse(raw ?? []);
+  const list = Array.isArray(parsed) ? parsed : parsed.rules;
+  const names = new Set<string>();
+  for (const rule of list) {
+    if (names.has(rule.name)) throw new Error(`duplicate rule name "${rule.name}"`);
+    names.add(rule.name);
+  }
+  return list;
+}
+
+/**
+ * Load rules from OPENPROJECT_RULES_FILE. Without the variable the engine stays empty;
+ * an invalid file is logged and leaves no rules active.
+ */
+export function initRules(): Rule[] {
+  rulesFile = process.env.OPENPROJECT_RULES_FILE || null;
+  rules = [];
+  if (!rulesFile) return rules;
+  try {
+    rules = parseRulesFile(rulesFile);
+    logger.info({ file: rulesFile, rules: rules.length, dryRun: globalDryRun() }, "Automation rules loaded");
+  } catch (err) {
+    logger.error({ err: getErrorMessage(err), file: rulesFile }, "Failed to load automation rules");
+  }
+  return rules;
+}
+
+/**
+ * Loaded rules with their firing statistics, for the list tool.
+ */
+export function listRules() {
+  return {
+    file: rulesFile,
+    dryRun: globalDryRun(),
+    rules: rules.map((r) => ({
+      name: r.name,
+      enabled: r.enabled,
+      dryRun: r.dryRun || globalDryRun(),
+      on: r.on,
+      match: r.match,
+      actions: r.actions,
+      fired: fireCount.get(r.name) ?? 0,
+      lastFiring: lastFiring.get(r.name) ?? null,
+    })),
+  };
+}
+
+/**
+ * Most recent firings (including dry runs and failures), newest first.
+ */
+export function recentRuleFirings(limit = 50): RuleFiring[] {
+  return firings.slice(-limit).reverse();
+}
+
+const linkTitles = (link: any): string[] =>
+  (Array.isArray(link) ? link : link ? [link] : []).flatMap((l: any) => [l?.title, idFromHref(l?.href)]).filter(Boolean);
+
+/** Display value of a work package field: a link title or a scalar property. */
+function fieldValue(resource: any, field: string): string | null {
+  const link = resource?._links?.[field];
+  if (link && !Array.isArray(link)) return link.title ?? idFromHref(link.href) ?? null;
+  const value = resource?.[field];
+  if (value == null) return null;
+  return typeof value === "object" ? (value.raw ?? JSON.stringify(value)) : String(value);
+}
+
+const valuesMatch = (actual: string[], wanted: z.infer<typeof conditionValue>) => {
+  const lowered = actual.map((a) => a.toLowerCase());
+  return (Array.isArray(wanted) ? wanted : [wanted]).some((w) => lowered.includes(String(w).toLowerCase()));
+};
+
+async function customFieldValues(api: AxiosInstance | null, resource: any, name: string, schemaCache: Map<string, any>) {
+  let key: string | null = /^customField\d+$/.test(name) ? name : null;
+  if (!key && api) {
+    const schema = await getWorkPackageSchema(api, { workPackage: resource }, schemaCache);
+    key = findCustomFieldKey(schema, name);
+  }
+  if (!key) return null;
+  if (resource?._links?.[key]) return linkTitles(resource._links[key]);
+  const value = resource?.[key];
+  if (value == null) return [];
+  return [typeof value === "object" ? String(value.raw ?? "") : String(value)];
+}
+
+async function ruleMatches(
+  rule: Rule,
+  event: OpenProjectEvent,
+  resource: any,
+  previous: Record<string, string | null> | undefined,
+  api: AxiosInstance | null,
+  schemaCache: Map<string, any>
+) {
+  if (!rule.on.some((t) => (t.endsWith(":*") ? event.action.startsWith(t.slice(0, -1)) : event.action === t))) return false;
+  const m = rule.match;
+  const links = resource?._links ?? {};
+
+  if (m.project !== undefined) {
+    const project = event.kind === "project" ? [String(resource?.id ?? ""), resource?.identifier, resource?.name] : linkTitles(links.project);
+    if (!valuesMatch(project.filter(Boolean), m.project)) return false;
+  }
+  for (const field of ["type", "status", "priority", "assignee", "author"] as const) {
+    if (m[field] !== undefined && !valuesMatch(linkTitles(links[field]), m[field]!)) return false;
+  }
+  if (m.subject !== undefined && !new RegExp(m.subject, "i").test(String(resource?.subject ?? ""))) return false;
+
+  for (const [name, wanted] of Object.entries(m.customFields ?? {})) {
+    const values = await customFieldValues(api, resource, name, schemaCache);
+    if (!values || !valuesMatch(values, wanted)) return false;
+  }
+
+  // unknown previous state (created, or first event since start) counts as changed
+  if (m.changed?.length && previous && !event.action.endsWith(":created")) {
+    if (!m.changed.some((f) => fieldValue(resource, f) !== (previous[f] ?? null))) return false;
+  }
+  return true;
+}
+
+/** Replace {{field}} placeholders in comment text with work package values. */
+const renderTemplate = (text: string, resource: any) =>
+  text.replace(/\{\{\s*([\w]+)\s*\}\}/g, (_m, field) => (field === "id" ? String(resource?.id ?? "") : fieldValue(resource, field) ?? ""));
+
+function markSelfWrite(workPackageId: string, lockVersion: unknown) {
+  if (typeof lockVersion !== "number") return;
+  const entry = selfWrites.get(workPackageId);
+  if (entry && entry.expires > Date.now()) {
+    entry.lockVersions.add(lockVersion);
+    entry.expires = Date.now() + SELF_WRITE_TTL_MS;
+  } else {
+    selfWrites.set(workPackageId, { lockVersions: new Set([lockVersion]), expires: Date.now() + SELF_WRITE_TTL_MS });
+  }
+}
+
+const isSelfWrite = (workPackageId: string, lockVersion: unknown) => {
+  const entry = selfWrites.get(workPackageId);
+  if (!entry) return false;
+  if (entry.expires <= Date.now()) {
+    selfWrites.delete(workPackageId);
+    return false;
+  }
+  return typeof lockVersion === "number" && entry.lockVersions.has(lockVersion);
+};
+
+async function runActions(api: AxiosInstance, workPackageId: string, resource: any, actions: RuleAction[]) {
+  for (const action of actions) {
+    if ("update" in action) {
+      const current = await api.get(`/work_packages/${workPackageId}`);
+      const { payload, errors } = await buildWorkPackageUpdate(api, current.data, action.update);
+      if (errors.length) throw new Error(errors.join("; "));
+      if (!Object.keys(payload).length) continue;
+      payload.lockVersion = current.data?.lockVersion;
+      const resp = await patchWithConflictRetry(api, `/work_packages/${workPackageId}`, `/work_packages/${workPackageId}`, payload);
+      markSelfWrite(workPackageId, resp.data?.lockVersion);
+    } else {
+      const comment = typeof action.comment === "string" ? { text: action.comment } : action.comment;
+      await addWorkPackageComment(api, workPackageId, renderTemplate(comment.text, resource), { internal: comment.internal });
+    }
+  }
+}
+
+/**
+ * Request hooks applying the env policy to rule writes: none in read-only mode, and only within
+ * the allowed projects when scoped. Tool allow/deny lists do not concern rules.
+ */
+function ruleWriteScope(): ToolCallScope {
+  const policy = policyFromEnv();
+  if (policy.readOnly) {
+    return {
+      beforeWrite: async () => {
+        throw new ForbiddenByPolicyError("rule actions cannot write in read-only mode");
+      },
+    };
+  }
+  return scopedWrites([policy]) ?? {};
+}
+
+/**
+ * Run a rule's actions under the env policy and record them in the audit log like a tool call,
+ * with "rule:<name>" as tool and client. Throws when an action fails or is rejected by policy.
+ */
+async function runRuleActions(rule: Rule, api: AxiosInstance, workPackageId: string, resource: any) {
+  const actor = `rule:${rule.name}`;
+  const authInfo: AuthInfo = { token: "", clientId: actor, scopes: [] };
+  let failure: unknown;
+  await auditToolCall(actor, { workPackageId, actions: rule.actions }, { authInfo }, async (): Promise<CallToolResult> => {
+    try {
+      await runInToolCallScope(ruleWriteScope(), () => runActions(api, workPackageId, resource, rule.actions));
+      return { content: [{ type: "text", text: `Rule ${rule.name} applied to work package ${workPackageId}` }] };
+    } catch (err) {
+      failure = err;
+      return { content: [{ type: "text", text: `ERROR: ${getErrorMessage(err)}` }] };
+    }
+  });
+  if (failure) throw failure;
+}
+
+function recordFiring(firing: RuleFiring) {
+  firings.push(firing);
+  if (firings.length > FIRINGS_MAX) firings.splice(0, firings.length - FIRINGS_MAX);
+  lastFiring.set(firing.rule, firing);
+  fireCount.set(firing.rule, (fireCount.get(firing.rule) ?? 0) + 1);
+}
+
+/**
+ * Evaluate the loaded rules against a webhook event and run the actions of matching rules
+ * with the server's OpenProject credentials, under the env policy and audited. Never throws;
+ * failures are logged and recorded as firings.
+ */
+export async function evaluateRules(event: OpenProjectEvent, payload: any): Promise<RuleFiring[]> {
+  const active = rules.filter((r) => r.enabled);
+  if (!active.length) return [];
+  const resource = payload?.[event.kind] ?? {};
+  const wpId = event.workPackageId;
+
+  const previous = wpId && event.kind === "work_package" ? snapshots.get(wpId) : undefined;
+  if (wpId && event.kind === "work_package") {
+    snapshots.delete(wpId);
+    snapshots.set(wpId, Object.fromEntries(TRACKED_FIELDS.map((f) => [f, fieldValue(resource, f)])));
+    if (snapshots.size > SNAPSHOTS_MAX) snapshots.delete(snapshots.keys().next().value as string);
+  }
+
+  if (event.kind === "work_package" && wpId && isSelfWrite(wpId, resource.lockVersion)) {
+    logger.debug({ workPackageId: wpId, lockVersion: resource.lockVersion }, "Skipping rules for own edit");
+    return [];
+  }
+
+  const api = getOpenProjectApi();
+  const schemaCache = new Map<string, any>();
+  const fired: RuleFiring[] = [];
+  for (const rule of active) {
+    try {
+      if (!(await ruleMatches(rule, event, resource, previous, api, schemaCache))) continue;
+    } catch (err) {
+      logger.warn({ rule: rule.name, err: getErrorMessage(err) }, "Rule condition could not be evaluated");
+      continue;
+    }
+
+    const cooldownKey = `${rule.name}|${wpId ?? event.resourceId}`;
+    if ((cooldowns.get(cooldownKey) ?? 0) > Date.now()) {
+      logger.debug({ rule: rule.name, workPackageId: wpId }, "Rule in cooldown; skipped");
+      continue;
+    }
+
+    const firing: RuleFiring = {
+      rule: rule.name,
+      at: new Date().toISOString(),
+      eventId: event.id,
+      action: event.action,
+      workPackageId: wpId,
+      outcome: "applied",
+      actions: rule.actions,
+    };
+    if (rule.dryRun || globalDryRun()) {
+      firing.outcome = "dry_run";
+      logger.info({ rule: rule.name, workPackageId: wpId, actions: rule.actions }, "Rule dry run: actions not executed");
+    } else if (!wpId) {
+      firing.outcome = "error";
+      firing.error = "event does not concern a work package";
+    } else if (!api) {
+      firing.outcome = "error";
+      firing.error = "OpenProject credentials are not configured (OPENPROJECT_URL/OPENPROJECT_API_KEY)";
+    } else {
+      cooldowns.set(cooldownKey, Date.now() + COOLDOWN_MS());
+      // the triggering version itself is handled; comment-only journals keep the same lockVersion
+      markSelfWrite(wpId, resource.lockVersion);
+      try {
+        await runRuleActions(rule, api, wpId, resource);
+        logger.info({ rule: rule.name, workPackageId: wpId }, "Rule fired");
+      } catch (err) {
+        firing.outcome = "error";
+        firing.error = getErrorMessage(err);
+        logger.warn({ rule: rule.name, workPackageId: wpId, err: firing.error }, "Rule actions failed");
+      }
+    }
+    recordFiring(firing);
+    fired.push(firing);
+  }
+
+  for (const [key, until] of cooldowns) if (until <= Date.now()) cooldowns.delete(key);
+  return fired;
+}
@@ -1,9 +1,23 @@
 import express from "express";
 import http from "http";
+import crypto from "crypto";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { setupMCPServer } from "./mcp.js";
 import { logger } from "./logger.js";
-import { registerOpenProjectWebhook } from "./webhooks.js";
+import { registerOpenProjectWebhook, captureRawBody } from "./webhooks.js";
+import { openProjectAuth } from "./auth.js";
+import { oauthSettingsFromEnv, registerOAuthRoutes } from "./oauth.js";
+import { createTokenStore } from "./tokenStore.js";
+import { createSessionManager } from "./sessions.js";
+import { createEventStore } from "./eventStore.js";
+import { initWebhookEventStore } from "./events.js";
+import { initRules } from "./rules.js";
+import { initSinks } from "./sinks.js";
+import { renderMetrics } from "./metrics.js";
+import { initResponseCache } from "./responseCache.js";
+import { limiterState } from "./rateLimiter.js";
+import { clientPolicy, requestPolicy } from "./policy.js";
+import { getAuditLog } from "./audit.js";
 
 export type StartedServer = {
   app: express.Express;
@@ -12,43 +26,143 @@ export type StartedServer = {
   stop: () => Promise<void>;
 };
 
+/** MCP_SESSION_IDLE_MS when it is a positive number; otherwise the session manager's default. */
+function sessionIdleMs(): number | undefined {
+  const raw = process.env.MCP_SESSION_IDLE_MS;
+  if (!raw) return undefined;
+  const ms = Number(raw);
+  if (Number.isFinite(ms) && ms > 0) return ms;
+  logger.warn({ MCP_SESSION_IDLE_MS: raw }, "Invalid MCP_SESSION_IDLE_MS, using the default");
+  return undefined;
+}
+
 /**
  * Start the HTTP + MCP server.
  * If port is 0 or undefined, the OS will pick a free port.
  */
 export async function startServer(port?: number): Promise<StartedServer> {
   const app = express();
-  app.use(express.json());
-
-  const mcpServer = setupMCPServer();
-  const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+  // keep the raw body around for webhook signature verification
+  app.use(express.json({ verify: captureRawBody }));
 
-  // Connect MCP server to transport
-  mcpServer.connect(transport);
+  // Stateful sessions (one McpServer per session, resumable streams) unless MCP_STATELESS=true,
+  // which keeps a single shared stateless transport.
+  const stateless = process.env.MCP_STATELESS === "true";
+  const mcpServer = stateless ? setupMCPServer() : null;
+  const transport = stateless ? new StreamableHTTPServerTransport({ sessionIdGenerator: undefined }) : null;
+  if (mcpServer && transport) {
+    // Connect MCP server to transport
+    mcpServer.connect(transport);
+  }
+  const sessions = stateless
+    ? null
+    : createSessionManager({
+        // the client's policy applies for the whole session, so its ruled-out tools are not listed
+        createServer: (req) => setupMCPServer(requestPolicy(req)),
+        createEventStore,
+        idleTimeoutMs: sessionIdleMs(),
+      });
+  const mcpServers = () => (sessions ? sessions.servers() : mcpServer ? [mcpServer] : []);
 
   // Register webhook endpoints (if any)
+  await initResponseCache();
+  await initWebhookEventStore();
+  initRules();
+  initSinks();
   try {
-    registerOpenProjectWebhook(app, mcpServer);
+    registerOpenProjectWebhook(app, mcpServers);
   } catch (err) {
     logger.warn({ err }, "Failed to register webhook endpoints");
   }
 
-  // Mount the MCP server endpoint
-  app.all("/mcp", (req, res) => {
-    // transport.handleRequest may be sync or async; don't await here to avoid changing signature,
-    // but ensure errors are surfaced by try/catch if needed.
+  // OAuth mode: authorization-code flow against OpenProject instead of static API keys
+  const oauthSettings = oauthSettingsFromEnv();
+  const tokenStore = oauthSettings ? createTokenStore() : null;
+  if (oauthSettings && tokenStore) {
+    registerOAuthRoutes(app, oauthSettings, tokenStore);
+  }
+
+  // Per-request OpenProject credentials (Bearer / X-OpenProject-* headers, or OAuth session keys)
+  app.use("/mcp", openProjectAuth(oauthSettings && tokenStore ? { settings: oauthSettings, store: tokenStore } : undefined));
+  // Policy from the client's connection config (can only narrow the env policy)
+  app.use("/mcp", clientPolicy());
+
+  // Mount the MCP server endpoint (POST messages, GET notification stream, DELETE session)
+  app.all("/mcp", async (req, res) => {
     try {
-      // pass parsed body if available
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      (transport as any).handleRequest(req, res, req.body);
+      if (sessions) {
+        await sessions.handle(req, res);
+      } else {
+        // pass parsed body if available
+        await transport!.handleRequest(req, res, req.body);
+      }
     } catch (err) {
       logger.error({ err }, "Error handling /mcp request");
-      res.status(500).send("Internal MCP error");
+      if (!res.headersSent) res.status(500).send("Internal MCP error");
     }
   });
 
+  // Prometheus metrics
+  app.get("/metrics", (_req, res) => {
+    res.type("text/plain; version=0.0.4").send(renderMetrics());
+  });
+
+  // Audit log for administrators (all credentials); only served when an admin token is configured
+  const auditAdminToken = process.env.OPENPROJECT_AUDIT_ADMIN_TOKEN;
+  if (auditAdminToken) {
+    app.get("/admin/audit", async (req, res) => {
+      const given = Buffer.from((req.header("authorization") ?? "").replace(/^Bearer\s+/i, ""));
+      const expected = Buffer.from(auditAdminToken);
+      if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+        res.status(401).json({ error: "unauthorized" });
+        return;
+      }
+      const log = getAuditLog();
+      if (!log) {
+        res.status(404).json({ error: "audit log disabled" });
+        return;
+      }
+      const q = (name: string) => (typeof req.query[name] === "string" ? (req.query[name] as string) : undefined);
+      for (const name of ["from", "to"]) {
+        const value = q(name);
+        if (value && Number.isNaN(Date.parse(value))) {
+          res.status(400).json({ error: `${name} is not a valid date` });
+          return;
+        }
+      }
+      try {
+        const entries = await log.query({
+          from: q("from"),
+          to: q("to"),
+          tool: q("tool"),
+          resource: q("resource"),
+          credentialId: q("credentialId"),
+          limit: q("limit") ? parseInt(q("limit") as string, 10) || undefined : undefined,
+        });
+        res.json({ entries });
+      } catch (err) {
+        logger.error({ err }, "Failed to query audit log");
+        res.status(500).json({ error: "audit log unavailable" });
+      }
+    });
+  }
+
   // Health check
   app.get("/", (_req, res) => res.send("MCP OpenProject server is running!"));
+  // Liveness stays 200 while OpenProject is down (restarting would not help); /ready reports
+  // 503 while an upstream circuit is open or half-open
+  const upstream = () => {
+    const openproject = limiterState();
+    const degraded = openproject.some((h) => h.circuit !== "closed");
+    return { degraded, body: { status: degraded ? "degraded" : "ok", openproject } };
+  };
+  app.get("/health", (_req, res) => {
+    res.json(upstream().body);
+  });
+  app.get("/ready", (_req, res) => {
+    const { degraded, body } = upstream();
+    res.status(degraded ? 503 : 200).json(body);
+  });
 
   const server = http.createServer(app);
 
@@ -72,10 +186,9 @@ export async function startServer(port?: number): Promise<StartedServer> {
       });
     });
     try {
-      // Try to gracefully disconnect MCP server if supported
-      if (typeof (mcpServer as any).disconnect === "function") {
-        await (mcpServer as any).disconnect();
-      }
+      // Close all sessions (stateful) or the shared server (stateless)
+      if (sessions) await sessions.closeAll();
+      if (mcpServer) await mcpServer.close();
     } catch (err) {
       logger.warn({ err }, "Error while disconnecting MCP server (ignored)");
     }
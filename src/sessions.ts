@@ -0,0 +1,138 @@
+import express from "express";
+import { createHash, randomUUID } from "crypto";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport, type EventStore } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger.js";
+
+type Session = {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  lastSeen: number;
+  /** GET streams currently open; a session with an open stream is never idle. */
+  openStreams: number;
+  /** Hash of the credential that initialized the session (null for the process-wide one). */
+  credential: string | null;
+};
+
+export type SessionManager = {
+  /** Route an /mcp request (POST, GET stream, DELETE) to its session, creating one on initialize. */
+  handle: (req: express.Request, res: express.Response) => Promise<void>;
+  /** MCP servers of all live sessions (e.g. to fan out notifications). */
+  servers: () => McpServer[];
+  size: () => number;
+  closeAll: () => Promise<void>;
+};
+
+/** Hash of the credential a request carries (API key or OAuth session key set by auth.ts). */
+const credentialOf = (req: express.Request): string | null => {
+  const token = (req as express.Request & { auth?: AuthInfo }).auth?.token;
+  return token ? createHash("sha256").update(token).digest("hex") : null;
+};
+
+const jsonRpcError = (res: express.Response, status: number, message: string) => {
+  res.status(status).json({ jsonrpc: "2.0", error: { code: -32000, message }, id: null });
+};
+
+/**
+ * Manage stateful MCP sessions: one transport + McpServer per session ID, bound to the credential
+ * that created it, an optional event store per session for Last-Event-ID replay, and expiry of sessions
+ * idle (no request and no open GET stream) longer than `idleTimeoutMs`.
+ */
+export function createSessionManager(options: {
+  /** Build the server of a new session from its initialize request (e.g. for the client's policy). */
+  createServer: (req: express.Request) => McpServer;
+  /** Event store of a new session; each session needs its own (see InMemoryEventStore). */
+  createEventStore?: () => EventStore | undefined;
+  idleTimeoutMs?: number;
+}): SessionManager {
+  const sessions = new Map<string, Session>();
+  // a non-numeric or non-positive timeout (e.g. a bad MCP_SESSION_IDLE_MS) falls back to the default
+  const idleTimeoutMs =
+    options.idleTimeoutMs !== undefined && Number.isFinite(options.idleTimeoutMs) && options.idleTimeoutMs > 0
+      ? options.idleTimeoutMs
+      : 30 * 60_000;
+
+  const closeSession = async (sessionId: string, reason: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    try {
+      await session.transport.close();
+      await session.server.close();
+    } catch (err) {
+      logger.warn({ err, sessionId }, "Error while closing MCP session (ignored)");
+    }
+    logger.info({ sessionId, reason }, "MCP session closed");
+  };
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - idleTimeoutMs;
+    for (const [sessionId, session] of sessions) {
+      if (session.lastSeen < cutoff && !session.openStreams) void closeSession(sessionId, "idle");
+    }
+  }, Math.min(idleTimeoutMs, 60_000));
+  sweep.unref();
+
+  const handle = async (req: express.Request, res: express.Response) => {
+    const sessionId = req.header("mcp-session-id");
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      // a session ID alone does not grant access: the request must carry the session's credential
+      if (!session || session.credential !== credentialOf(req)) return jsonRpcError(res, 404, "Session not found");
+      session.lastSeen = Date.now();
+      if (req.method === "GET") {
+        session.openStreams++;
+        res.on("close", () => {
+          session.openStreams--;
+          session.lastSeen = Date.now();
+        });
+      }
+      await session.transport.handleRequest(req, res, req.body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(req.body)) {
+      return jsonRpcError(res, 400, "Bad Request: No valid session ID provided");
+    }
+
+    const server = options.createServer(req);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      eventStore: options.createEventStore?.(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, server, lastSeen: Date.now(), openStreams: 0, credential: credentialOf(req) });
+        logger.info({ sessionId: id }, "MCP session initialized");
+      },
+    });
+
+    try {
+      await server.connect(transport);
+      // DELETE /mcp (handled by the transport) ends up here; connect() owns transport.onclose,
+      // so hook the protocol-level callback instead
+      server.server.onclose = () => {
+        const id = transport.sessionId;
+        if (id && sessions.delete(id)) logger.info({ sessionId: id, reason: "closed" }, "MCP session closed");
+      };
+      await transport.handleRequest(req, res, req.body);
+    } finally {
+      // a rejected or aborted initialize never registers the session; don't leak its server
+      if (!transport.sessionId || !sessions.has(transport.sessionId)) {
+        await transport.close().catch(() => undefined);
+        await server.close().catch(() => undefined);
+      }
+    }
+  };
+
+  return {
+    handle,
+    servers: () => [...sessions.values()].map((s) => s.server),
+    size: () => sessions.size,
+    closeAll: async () => {
+      clearInterval(sweep);
+      await Promise.all([...sessions.keys()].map((id) => closeSession(id, "shutdown")));
+    },
+  };
+}
@@ -0,0 +1,230 @@
+import fs from "fs";
+import path from "path";
+import axios from "axios";
+import { z } from "zod";
+import { parse as parseYaml } from "yaml";
+import { logger } from "./logger.js";
+import { matchesEventType, type OpenProjectEvent } from "./events.js";
+import { getErrorMessage } from "./helpers.js";
+
+const sinkSchema = z.object({
+  name: z.string().min(1),
+  /** "http": generic JSON POST (optionally templated), "slack": incoming webhook, "teams": Adaptive Card. */
+  kind: z.enum(["http", "slack", "teams"]).default("http"),
+  url: z.string().url(),
+  headers: z.record(z.string()).optional(),
+  /** Body template for http sinks; "{{path}}" placeholders are replaced with event values. */
+  template: z.any().optional(),
+  /** Only relay events of these projects (ID or name). */
+  projects: z.array(z.union([z.string(), z.number()])).optional(),
+  /** Only relay these event actions; "work_package:*" style wildcards are allowed. */
+  types: z.array(z.string()).optional(),
+  maxRetries: z.number().int().min(0).max(10).default(5),
+});
+
+export type Sink = z.infer<typeof sinkSchema>;
+
+const sinksFileSchema = z.union([z.array(sinkSchema), z.object({ sinks: z.array(sinkSchema) })]);
+
+let sinks: Sink[] = [];
+
+const RETRY_BASE_MS = 500;
+const RETRY_MAX_MS = 30_000;
+
+const deadLetterPath = () =>
+  process.env.OPENPROJECT_SINKS_DEAD_LETTER || path.join(process.cwd(), "data", "sinks-dead-letter.jsonl");
+
+/**
+ * Load outbound sinks from OPENPROJECT_SINKS_FILE (YAML, or JSON for .json files) or the
+ * OPENPROJECT_SINKS JSON string. Invalid configuration is logged and leaves no sinks active.
+ */
+export function initSinks(): Sink[] {
+  sinks = [];
+  const file = process.env.OPENPROJECT_SINKS_FILE;
+  const inline = process.env.OPENPROJECT_SINKS;
+  if (!file && !inline) return sinks;
+  try {
+    const raw = file
+      ? /\.json$/i.test(file)
+        ? JSON.parse(fs.readFileSync(file, "utf8"))
+        : parseYaml(fs.readFileSync(file, "utf8"))
+      : JSON.parse(inline as string);
+    const parsed = sinksFileSchema.parse(raw ?? []);
+    sinks = Array.isArray(parsed) ? parsed : parsed.sinks;
+    // sink URLs often embed secrets (Slack/Teams webhooks), so only names are logged
+    logger.info({ sinks: sinks.map((s) => `${s.name} (${s.kind})`) }, "Outbound event sinks loaded");
+  } catch (err) {
+    logger.error({ err: getErrorMessage(err), file }, "Failed to load outbound event sinks");
+  }
+  return sinks;
+}
+
+const sinkAccepts = (sink: Sink, event: OpenProjectEvent) => {
+  if (!matchesEventType(event.action, sink.types)) return false;
+  if (sink.projects?.length) {
+    const wanted = sink.projects.map((p) => String(p).toLowerCase());
+    const project = [event.projectId, event.projectName].filter(Boolean).map((p) => String(p).toLowerCase());
+    if (!project.some((p) => wanted.includes(p))) return false;
+  }
+  return true;
+};
+
+/** Web link to the changed entity when OPENPROJECT_URL is known. */
+function eventLink(event: OpenProjectEvent): string | null {
+  const base = process.env.OPENPROJECT_URL?.replace(/\/$/, "");
+  if (!base) return null;
+  if (event.workPackageId) return `${base}/work_packages/${event.workPackageId}`;
+  if (event.projectId) return `${base}/projects/${event.projectId}`;
+  return null;
+}
+
+/**
+ * One-line human-readable summary, e.g. "Work package updated: #12 Login fails (Backend)".
+ */
+export function eventSummary(event: OpenProjectEvent): string {
+  const [kind, action] = event.action.split(":");
+  const r = event.resource as Record<string, any>;
+  const title = r.subject ?? r.name ?? r.fileName ?? (r.hours ? `${r.hours} on ${r.workPackage ?? "?"}` : null);
+  const label = `${kind.replace("_", " ")} ${action}`;
+  const subject = [event.resourceId ? `#${event.resourceId}` : null, title].filter(Boolean).join(" ");
+  return `${label.charAt(0).toUpperCase()}${label.slice(1)}: ${subject}${event.projectName ? ` (${event.projectName})` : ""}`;
+}
+
+const eventFacts = (event: OpenProjectEvent) =>
+  Object.entries(event.resource)
+    .filter(([k, v]) => v != null && v !== "" && k !== "id")
+    .map(([k, v]) => ({ title: k, value: String(v) }));
+
+/**
+ * Replace "{{path}}" placeholders (e.g. "{{resource.subject}}", "{{summary}}") in a template.
+ * A string consisting of a single placeholder keeps the value's type.
+ */
+function renderTemplate(template: unknown, scope: Record<string, any>): unknown {
+  const lookup = (p: string) => p.split(".").reduce<any>((o, k) => (o == null ? undefined : o[k]), scope);
+  if (typeof template === "string") {
+    const whole = template.match(/^\{\{\s*([\w.]+)\s*\}\}$/);
+    if (whole) return lookup(whole[1]) ?? null;
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_m, p) => {
+      const v = lookup(p);
+      return v == null ? "" : typeof v === "object" ? JSON.stringify(v) : String(v);
+    });
+  }
+  if (Array.isArray(template)) return template.map((t) => renderTemplate(t, scope));
+  if (template && typeof template === "object") {
+    return Object.fromEntries(Object.entries(template).map(([k, v]) => [k, renderTemplate(v, scope)]));
+  }
+  return template;
+}
+
+/** Escape the control characters of Slack mrkdwn (&, <, >) in user-provided text. */
+const slackEscape = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/**
+ * Request body for a sink in its wire format.
+ */
+export function sinkBody(sink: Sink, event: OpenProjectEvent): unknown {
+  const summary = eventSummary(event);
+  const link = eventLink(event);
+  switch (sink.kind) {
+    case "slack": {
+      const text = slackEscape(summary);
+      return {
+        text: link ? `<${link}|${text}>` : text,
+        blocks: [
+          { type: "section", text: { type: "mrkdwn", text: link ? `*<${link}|${text}>*` : `*${text}*` } },
+          {
+            type: "context",
+            elements: eventFacts(event)
+              .slice(0, 10)
+              .map((f) => ({ type: "mrkdwn", text: `*${slackEscape(f.title)}:* ${slackEscape(f.value)}` })),
+          },
+        ],
+      };
+    }
+    case "teams":
+      return {
+        type: "message",
+        attachments: [
+          {
+            contentType: "application/vnd.microsoft.card.adaptive",
+            content: {
+              $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+              type: "AdaptiveCard",
+              version: "1.4",
+              body: [
+                { type: "TextBlock", text: summary, weight: "Bolder", wrap: true },
+                { type: "FactSet", facts: eventFacts(event) },
+              ],
+              actions: link ? [{ type: "Action.OpenUrl", title: "Open in OpenProject", url: link }] : [],
+            },
+          },
+        ],
+      };
+    default:
+      return sink.template === undefined ? event : renderTemplate(sink.template, { ...event, event, summary, link });
+  }
+}
+
+/** Short delivery error without request details (sink URLs may embed secrets). */
+const deliveryError = (err: any) =>
+  err?.response?.status ? `HTTP ${err.response.status}` : err?.code ?? (err instanceof Error ? err.message : String(err));
+
+const isRetryable = (err: any) => {
+  const status = err?.response?.status;
+  return !status || status === 408 || status === 429 || status >= 500;
+};
+
+async function writeDeadLetter(sink: Sink, event: OpenProjectEvent, error: string, attempts: number) {
+  const file = deadLetterPath();
+  try {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.appendFile(
+      file,
+      `${JSON.stringify({ at: new Date().toISOString(), sink: sink.name, kind: sink.kind, attempts, error, event })}\n`
+    );
+  } catch (err) {
+    logger.error({ err: getErrorMessage(err), sink: sink.name }, "Failed to write sink dead letter");
+  }
+}
+
+/**
+ * POST an event to one sink, retrying network errors, 408/429 and 5xx with exponential backoff
+ * (Retry-After is honored). Deliveries that still fail end up in the dead-letter file.
+ * Returns true when delivered.
+ */
+export async function deliverToSink(sink: Sink, event: OpenProjectEvent): Promise<boolean> {
+  const body = sinkBody(sink, event);
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await axios.post(sink.url, body, {
+        timeout: 10_000,
+        headers: { "Content-Type": "application/json", "User-Agent": "mcp-openproject/1.0", ...sink.headers },
+      });
+      logger.debug({ sink: sink.name, action: event.action, attempts: attempt + 1 }, "Event delivered to sink");
+      return true;
+    } catch (err: any) {
+      const error = deliveryError(err);
+      if (attempt >= sink.maxRetries || !isRetryable(err)) {
+        logger.warn({ sink: sink.name, action: event.action, attempts: attempt + 1, err: error }, "Sink delivery failed; dead-lettered");
+        await writeDeadLetter(sink, event, error, attempt + 1);
+        return false;
+      }
+      const retryAfter = parseInt(err?.response?.headers?.["retry-after"] ?? "", 10);
+      const delay = Number.isFinite(retryAfter)
+        ? Math.min(retryAfter * 1000, RETRY_MAX_MS)
+        : Math.min(RETRY_BASE_MS * 2 ** attempt, RETRY_MAX_MS) + Math.floor(Math.random() * 100);
+      await new Promise((res) => setTimeout(res, delay));
+    }
+  }
+}
+
+/**
+ * Relay an event to every sink whose project/type filters accept it. Deliveries run concurrently
+ * and never throw. Returns the number of sinks the event was delivered to.
+ */
+export async function dispatchToSinks(event: OpenProjectEvent): Promise<number> {
+  const targets = sinks.filter((s) => sinkAccepts(s, event));
+  if (!targets.length) return 0;
+  const results = await Promise.all(targets.map((s) => deliverToSink(s, event).catch(() => false)));
+  return results.filter(Boolean).length;
+}
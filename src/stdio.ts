@@ -0,0 +1,46 @@
+import fs from "fs";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { setupMCPServer } from "./mcp.js";
+import { logger } from "./logger.js";
+import { initResponseCache } from "./responseCache.js";
+
+const CONFIG_KEYS = ["OPENPROJECT_API_KEY", "OPENPROJECT_URL", "OPENPROJECT_API_VERSION"] as const;
+
+/**
+ * Fill missing OpenProject settings from a JSON config file (`--config <path>` or
+ * OPENPROJECT_CONFIG_FILE). Environment variables always take precedence.
+ */
+export function loadConfigFile(argv = process.argv) {
+  const flagIndex = argv.indexOf("--config");
+  const file = flagIndex >= 0 ? argv[flagIndex + 1] : process.env.OPENPROJECT_CONFIG_FILE;
+  if (!file) return;
+
+  const config = JSON.parse(fs.readFileSync(file, "utf8"));
+  for (const key of CONFIG_KEYS) {
+    if (!process.env[key] && typeof config[key] === "string") {
+      process.env[key] = config[key];
+    }
+  }
+  logger.info({ file }, "Loaded OpenProject config file");
+}
+
+/**
+ * Serve the MCP server over stdio (for Claude Desktop, IDEs and other local launchers).
+ */
+export async function startStdio() {
+  loadConfigFile();
+  if (!process.env.OPENPROJECT_API_KEY || !process.env.OPENPROJECT_URL) {
+    logger.warn("OPENPROJECT_API_KEY / OPENPROJECT_URL not set; OpenProject tools will report missing configuration");
+  }
+  await initResponseCache();
+
+  const mcpServer = setupMCPServer();
+  const transport = new StdioServerTransport();
+  await mcpServer.connect(transport);
+  logger.info("MCP server running on stdio");
+
+  const stop = async () => {
+    await mcpServer.close();
+  };
+  return { stop };
+}
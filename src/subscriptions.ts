@@ -0,0 +1,90 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger.js";
+import type { OpenProjectEvent } from "./events.js";
+import { contextConfig, getOpenProjectApi, isNotFoundError, missingConfigMessage, type ToolContext } from "./helpers.js";
+import { assertResourcePermitted } from "./policy.js";
+
+/**
+ * Resource URIs each MCP server (one per session) has subscribed to.
+ */
+const subscriptions = new WeakMap<McpServer, Set<string>>();
+
+export const workPackageUri = (id: string | number) => `openproject://work_packages/${id}`;
+export const projectUri = (id: string | number) => `openproject://projects/${id}`;
+
+const SUBSCRIBABLE_URI = /^openproject:\/\/(work_packages|projects)\/([^/?#]+)$/;
+
+/**
+ * Check that a subscription names an existing work package or project the caller may read
+ * (credential and project scope); throws otherwise.
+ */
+async function assertSubscribable(uri: string, context: ToolContext) {
+  const m = SUBSCRIBABLE_URI.exec(uri);
+  if (!m) throw new Error(`Unknown resource: ${uri}`);
+  const api = getOpenProjectApi(contextConfig(context));
+  if (!api) throw new Error(missingConfigMessage);
+  const [, collection, id] = m;
+  await assertResourcePermitted(context, collection === "work_packages" ? { taskId: id } : { projectId: id });
+  try {
+    await api.get(`/${collection}/${id}`);
+  } catch (err) {
+    if (isNotFoundError(err)) throw new Error(`Resource not found: ${uri}`);
+    throw err;
+  }
+}
+
+/**
+ * Handle resources/subscribe and resources/unsubscribe for a server. The server must declare
+ * the `resources.subscribe` capability. Only existing work packages and projects within the
+ * caller's project scope can be subscribed.
+ */
+export function enableResourceSubscriptions(server: McpServer) {
+  const uris = new Set<string>();
+  subscriptions.set(server, uris);
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    await assertSubscribable(request.params.uri, extra);
+    uris.add(request.params.uri);
+    logger.debug({ uri: request.params.uri }, "Resource subscribed");
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    uris.delete(request.params.uri);
+    return {};
+  });
+}
+
+/**
+ * Resources whose content changed with this event: the work package it concerns and,
+ * for project events, the project itself.
+ */
+export function resourceUrisForEvent(event: OpenProjectEvent): string[] {
+  const uris: string[] = [];
+  if (event.workPackageId) uris.push(workPackageUri(event.workPackageId));
+  if (event.kind === "project" && event.projectId) uris.push(projectUri(event.projectId));
+  return uris;
+}
+
+/**
+ * Send notifications/resources/updated to every server subscribed to a resource changed by the event.
+ * Returns the number of notifications sent.
+ */
+export async function notifyResourceSubscribers(servers: McpServer[], event: OpenProjectEvent): Promise<number> {
+  const uris = resourceUrisForEvent(event);
+  let sent = 0;
+  for (const server of servers) {
+    const subscribed = subscriptions.get(server);
+    if (!subscribed || !server.isConnected()) continue;
+    for (const uri of uris) {
+      if (!subscribed.has(uri)) continue;
+      try {
+        await server.server.sendResourceUpdated({ uri });
+        sent++;
+      } catch (err) {
+        logger.warn({ err, uri }, "Failed to send resource update notification (ignored)");
+      }
+    }
+  }
+  return sent;
+}
@@ -0,0 +1,127 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { logger } from "./logger.js";
+
+/**
+ * OAuth tokens obtained from OpenProject for one MCP client session.
+ */
+export type StoredToken = {
+  accessToken: string;
+  refreshToken?: string;
+  /** Expiry of the access token in ms since epoch (undefined when OpenProject didn't say). */
+  expiresAt?: number;
+  scope?: string;
+  openProjectUrl: string;
+};
+
+/**
+ * Pluggable storage for OAuth tokens, keyed by the opaque session key handed to the client.
+ */
+export interface TokenStore {
+  get(key: string): Promise<StoredToken | undefined>;
+  set(key: string, token: StoredToken): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Default store: tokens live only as long as the process.
+ */
+export class InMemoryTokenStore implements TokenStore {
+  private tokens = new Map<string, StoredToken>();
+
+  async get(key: string) {
+    return this.tokens.get(key);
+  }
+
+  async set(key: string, token: StoredToken) {
+    this.tokens.set(key, token);
+  }
+
+  async delete(key: string) {
+    this.tokens.delete(key);
+  }
+}
+
+/**
+ * File-backed store encrypted with AES-256-GCM. The whole token map is re-written on every
+ * change (atomically via rename), which is fine for the handful of sessions a server holds.
+ */
+export class EncryptedFileTokenStore implements TokenStore {
+  private key: Buffer;
+  private cache: Map<string, StoredToken> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string, secret: string) {
+    this.key = crypto.createHash("sha256").update(secret).digest();
+  }
+
+  private load(): Map<string, StoredToken> {
+    if (this.cache) return this.cache;
+    this.cache = new Map();
+    if (!fs.existsSync(this.filePath)) return this.cache;
+    try {
+      const { iv, tag, data } = JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+      const decipher = crypto.createDecipheriv("aes-256-gcm", this.key, Buffer.from(iv, "base64"));
+      decipher.setAuthTag(Buffer.from(tag, "base64"));
+      const plain = Buffer.concat([decipher.update(Buffer.from(data, "base64")), decipher.final()]).toString("utf8");
+      this.cache = new Map(Object.entries(JSON.parse(plain)));
+    } catch (err) {
+      // wrong key or corrupted file: start empty rather than crash; clients simply re-authorize
+      logger.error({ err: (err as Error).message }, "Failed to read encrypted token store, starting empty");
+    }
+    return this.cache;
+  }
+
+  private persist() {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", this.key, iv);
+    const plain = JSON.stringify(Object.fromEntries(this.load()));
+    const data = Buffer.concat([cipher.update(plain, "utf8"), cipher.final()]);
+    const body = JSON.stringify({
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64"),
+    });
+    // serialize writes so concurrent set/delete calls can't interleave; a failed write is
+    // reported to its caller but does not stop later writes
+    const write = this.writing.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tmp = `${this.filePath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tmp, body, { mode: 0o600 });
+      await fs.promises.rename(tmp, this.filePath);
+    });
+    this.writing = write.catch((err) => logger.error({ err: (err as Error).message }, "Failed to write encrypted token store"));
+    return write;
+  }
+
+  async get(key: string) {
+    return this.load().get(key);
+  }
+
+  async set(key: string, token: StoredToken) {
+    this.load().set(key, token);
+    await this.persist();
+  }
+
+  async delete(key: string) {
+    if (this.load().delete(key)) await this.persist();
+  }
+}
+
+/**
+ * Create the token store selected by OPENPROJECT_TOKEN_STORE ("memory" or "file").
+ * The file store requires OPENPROJECT_TOKEN_STORE_KEY and writes to
+ * OPENPROJECT_TOKEN_STORE_PATH (default ./data/tokens.enc).
+ */
+export function createTokenStore(): TokenStore {
+  if (process.env.OPENPROJECT_TOKEN_STORE === "file") {
+    const secret = process.env.OPENPROJECT_TOKEN_STORE_KEY;
+    if (!secret) {
+      throw new Error("OPENPROJECT_TOKEN_STORE_KEY is required for the encrypted file token store");
+    }
+    const filePath = process.env.OPENPROJECT_TOKEN_STORE_PATH || path.join(process.cwd(), "data", "tokens.enc");
+    return new EncryptedFileTokenStore(filePath, secret);
+  }
+  return new InMemoryTokenStore();
+}
@@ -1,60 +1,202 @@
 import express from "express";
+import crypto from "crypto";
 import { logger } from "./logger.js";
+import { getWebhookEventStore, isKnownEventAction, parseWebhookPayload } from "./events.js";
+import { notifyResourceSubscribers } from "./subscriptions.js";
+import { evaluateRules } from "./rules.js";
+import { dispatchToSinks } from "./sinks.js";
+import { webhooksReceived, webhooksRejected } from "./metrics.js";
+import { invalidateForEvent } from "./responseCache.js";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
+type RawBodyRequest = express.Request & { rawBody?: Buffer };
+
+/**
+ * `verify` hook for express.json() that keeps the raw request body, which HMAC
+ * signatures are computed over (re-serializing the parsed JSON would not match).
+ */
+export const captureRawBody = (req: any, _res: any, buf: Buffer) => {
+  req.rawBody = buf;
+};
+
+/**
+ * Webhook secrets from OPENPROJECT_WEBHOOK_SECRET; a comma-separated list allows rotation
+ * (old and new secret are both accepted until the old one is removed).
+ */
+const webhookSecrets = () =>
+  (process.env.OPENPROJECT_WEBHOOK_SECRET || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+const timingSafeEqualStr = (a: string, b: string) => {
+  const ab = Buffer.from(a);
+  const bb = Buffer.from(b);
+  return ab.length === bb.length && crypto.timingSafeEqual(ab, bb);
+};
+
+/**
+ * Delivery IDs seen recently, with their expiry (ms). Bounded; oldest entries are evicted first.
+ */
+const seenDeliveries = new Map<string, number>();
+const SEEN_DELIVERIES_MAX = 10_000;
+
+/**
+ * OPENPROJECT_WEBHOOK_MAX_AGE_SEC; a non-numeric or non-positive value falls back to the default
+ * (NaN would disable both the staleness check and the expiry of seen delivery IDs).
+ */
+const MAX_AGE_SEC = () => {
+  const sec = Number(process.env.OPENPROJECT_WEBHOOK_MAX_AGE_SEC || "900");
+  return Number.isFinite(sec) && sec > 0 ? sec : 900;
+};
+const MAX_CLOCK_SKEW_SEC = 60;
+
+type Rejection = { status: number; error: string; message: string };
+
+/**
+ * Delivery timestamp from X-Op-Timestamp (unix seconds or ISO); null when not sent. The
+ * updatedAt of the payload's resource is no delivery time: retries and deliveries about older
+ * resources would look stale.
+ */
+function deliveryTimestamp(req: express.Request): number | null {
+  const header = req.header("x-op-timestamp") ?? req.header("x-webhook-timestamp");
+  if (!header) return null;
+  const ts = /^\d+$/.test(header) ? parseInt(header, 10) * 1000 : Date.parse(header);
+  return Number.isNaN(ts) ? null : ts;
+}
+
+/** X-Op-Delivery, or a hash of the raw body: identical bodies carry the same updatedAt/lockVersion. */
+const deliveryId = (req: RawBodyRequest) =>
+  req.header("x-op-delivery") ??
+  crypto
+    .createHash("sha256")
+    .update(req.rawBody ?? Buffer.from(JSON.stringify(req.body ?? {})))
+    .digest("hex");
+
+/**
+ * Forget a delivery that was accepted but failed to process, so OpenProject's retry is not
+ * rejected as a duplicate.
+ */
+export function forgetWebhookDelivery(req: RawBodyRequest) {
+  seenDeliveries.delete(deliveryId(req));
+}
+
+/**
+ * Verify a webhook delivery: HMAC signature (X-Op-Signature: sha1=<hex> or sha256=<hex>)
+ * over the raw body against every configured secret, or the legacy shared token header;
+ * then reject stale deliveries (when X-Op-Timestamp is sent) and duplicates. Returns null when
+ * the delivery is accepted.
+ */
+export function verifyWebhookDelivery(req: RawBodyRequest): Rejection | null {
+  const secrets = webhookSecrets();
+  const rawBody = req.rawBody ?? Buffer.from(JSON.stringify(req.body ?? {}));
+  const signature = req.header("x-op-signature");
+  const receivedToken = req.header("x-openproject-webhook-token") ?? req.header("x-hook-token");
+
+  if (secrets.length) {
+    if (signature) {
+      const match = /^(sha1|sha256)=([0-9a-f]+)$/i.exec(signature.trim());
+      if (!match) {
+        return { status: 401, error: "invalid_signature", message: "Malformed X-Op-Signature header" };
+      }
+      const [, algorithm, digest] = match;
+      const valid = secrets.some((secret) =>
+        timingSafeEqualStr(
+          crypto.createHmac(algorithm.toLowerCase(), secret).update(rawBody).digest("hex"),
+          digest.toLowerCase()
+        )
+      );
+      if (!valid) {
+        return { status: 401, error: "invalid_signature", message: "Webhook signature does not match" };
+      }
+    } else if (receivedToken) {
+      if (!secrets.some((secret) => timingSafeEqualStr(secret, receivedToken))) {
+        return { status: 401, error: "invalid_token", message: "Invalid webhook token" };
+      }
+    } else {
+      return { status: 401, error: "missing_signature", message: "Missing X-Op-Signature header" };
+    }
+  }
+
+  const ts = deliveryTimestamp(req);
+  if (ts !== null) {
+    const ageSec = (Date.now() - ts) / 1000;
+    if (ageSec > MAX_AGE_SEC()) {
+      return { status: 400, error: "stale_delivery", message: `Delivery is ${Math.round(ageSec)}s old` };
+    }
+    if (ageSec < -MAX_CLOCK_SKEW_SEC) {
+      return { status: 400, error: "future_delivery", message: "Delivery timestamp is in the future" };
+    }
+  }
+
+  // marked as seen right away so concurrent duplicates are rejected; forgotten again on failure
+  const id = deliveryId(req);
+  const now = Date.now();
+  const seenUntil = seenDeliveries.get(id);
+  if (seenUntil && seenUntil > now) {
+    return { status: 409, error: "duplicate_delivery", message: "Delivery was already processed" };
+  }
+  seenDeliveries.set(id, now + MAX_AGE_SEC() * 1000);
+  while (seenDeliveries.size > SEEN_DELIVERIES_MAX) {
+    const oldest = seenDeliveries.keys().next().value;
+    if (oldest === undefined) break;
+    seenDeliveries.delete(oldest);
+  }
+  return null;
+}
+
 /**
  * Register OpenProject webhook endpoint.
  *
  * POST /webhooks/openproject
- * - optionally validates X-OpenProject-Webhook-Token against env OPENPROJECT_WEBHOOK_SECRET
- * - logs payload
- * - attempts to forward the event to the MCP server via sendNotification/notify if available
+ * - verifies the X-Op-Signature HMAC (or legacy token) against OPENPROJECT_WEBHOOK_SECRET
+ * - rejects stale and duplicate deliveries with structured error codes
+ * - logs payload and records it as a typed event in the webhook event store
+ * - invalidates cached OpenProject responses of the changed resources
+ * - sends notifications/resources/updated to sessions subscribed to the changed resources
+ * - evaluates automation rules (see rules.ts) and relays the event to outbound sinks (see sinks.ts)
  */
-export function registerOpenProjectWebhook(app: express.Express, mcpServer?: McpServer) {
-  const secret = process.env.OPENPROJECT_WEBHOOK_SECRET;
-
-  app.post("/webhooks/openproject", express.json(), async (req, res) => {
+export function registerOpenProjectWebhook(app: express.Express, mcpServers?: () => McpServer[]) {
+  app.post("/webhooks/openproject", express.json({ verify: captureRawBody }), async (req, res) => {
     try {
-      const receivedToken = req.header("x-openproject-webhook-token") ?? req.header("x-hook-token");
-      if (secret) {
-        if (!receivedToken || receivedToken !== secret) {
-          logger.warn(
-            { receivedToken: !!receivedToken },
-            "OpenProject webhook token missing or mismatched"
-          );
-          return res.status(401).json({ ok: false, error: "Invalid webhook token" });
-        }
+      const rejection = verifyWebhookDelivery(req as RawBodyRequest);
+      if (rejection) {
+        logger.warn({ error: rejection.error }, "OpenProject webhook rejected");
+        webhooksRejected.inc({ reason: rejection.error });
+        return res.status(rejection.status).json({ ok: false, error: rejection.error, message: rejection.message });
       }
 
       const payload = req.body;
       logger.info({ payload }, "Received OpenProject webhook");
-
-      // Try to forward to MCP server as a notification if possible.
-      try {
-        // Different MCP server implementations may expose different APIs.
-        // Try a couple of common method names safely.
-        const anyServer: any = mcpServer as any;
-        if (anyServer) {
-          if (typeof anyServer.sendNotification === "function") {
-            await anyServer.sendNotification({
-              method: "webhook/openproject",
-              params: { payload },
-            });
-            logger.debug("Forwarded webhook to mcpServer.sendNotification");
-          } else if (typeof anyServer.notify === "function") {
-            await anyServer.notify("webhook/openproject", { payload });
-            logger.debug("Forwarded webhook to mcpServer.notify");
-          } else {
-            logger.debug("mcpServer present but has no notification API; skipping forward");
-          }
+      const event = parseWebhookPayload(payload);
+      // bounded label set: the action is sender-controlled
+      webhooksReceived.inc({ action: event && isKnownEventAction(event.action) ? event.action : "other" });
+      if (event) {
+        // drop cached reads of the changed resources before anyone re-reads them
+        await invalidateForEvent(event);
+        try {
+          await getWebhookEventStore().append(event);
+        } catch (err) {
+          logger.warn({ err }, "Failed to record webhook event (ignored)");
         }
-      } catch (err) {
-        logger.warn({ err }, "Failed to forward webhook to MCP server (ignored)");
+      } else {
+        logger.debug({ action: payload?.action }, "Unrecognized webhook action; not recorded");
+      }
+
+      // Notify sessions subscribed to the changed work package / project resources
+      if (event) {
+        const notified = await notifyResourceSubscribers(mcpServers?.() ?? [], event);
+        if (notified) logger.debug({ action: event.action, notified }, "Sent resource update notifications");
+
+        // Automation rules and outbound sinks run in the background so OpenProject gets its 200 right away
+        void evaluateRules(event, payload);
+        void dispatchToSinks(event);
       }
 
       return res.status(200).json({ ok: true });
     } catch (err) {
       logger.error({ err }, "Error handling OpenProject webhook");
+      forgetWebhookDelivery(req as RawBodyRequest);
       return res.status(500).json({ ok: false, error: "internal_error" });
     }
   });
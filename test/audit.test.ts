@@ -0,0 +1,109 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startMockOpenProject, type MockOpenProject } from "./mockOpenProject.js";
+import { AuditLog, auditToolCall, getAuditLog, type AuditEntry } from "../src/audit.js";
+import { getOpenProjectApi } from "../src/helpers.js";
+
+let op: MockOpenProject;
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "audit-test-"));
+
+beforeAll(async () => {
+  op = await startMockOpenProject();
+  process.env.OPENPROJECT_URL = op.url;
+  process.env.OPENPROJECT_API_KEY = "test-key";
+  process.env.OPENPROJECT_CACHE = "none";
+  process.env.OPENPROJECT_AUDIT_LOG = path.join(dir, "audit.jsonl");
+});
+
+afterAll(async () => {
+  await op.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const ok = { content: [{ type: "text" as const, text: "ok" }] };
+
+describe("auditToolCall", () => {
+  it("records validation-only calls as no-op and real writes as success", async () => {
+    const api = getOpenProjectApi()!;
+    await auditToolCall("openproject-create-task", { projectId: "1", validateOnly: true }, undefined, async () => {
+      await api.post("/projects/1/work_packages/form", { subject: "x" });
+      return ok;
+    });
+    await auditToolCall("openproject-update-task", { taskId: "10" }, undefined, async () => {
+      await api.post("/work_packages/10/form", { subject: "x" });
+      await api.patch("/work_packages/10", { subject: "x", lockVersion: 1 });
+      return ok;
+    });
+
+    const [validated] = await getAuditLog()!.query({ tool: "openproject-create-task" });
+    expect(validated.outcome).toBe("no-op");
+    expect(validated.status).toBeNull();
+    expect(validated.requests).toEqual([]);
+
+    const [updated] = await getAuditLog()!.query({ tool: "openproject-update-task" });
+    expect(updated.outcome).toBe("success");
+    expect(updated.status).toBe(200);
+    expect(updated.target).toBe("work_packages/10");
+    expect(updated.requests).toEqual([{ method: "PATCH", path: "work_packages/10", status: 200 }]);
+  });
+});
+
+let seq = 0;
+/** A minimal audit entry; `at` advances a minute per entry so queries see distinct times. */
+const auditEntry = (tool: string, fields: Partial<AuditEntry> = {}): AuditEntry => ({
+  at: new Date(Date.UTC(2024, 4, 1, 10, seq++)).toISOString(),
+  tool,
+  params: {},
+  actor: { credentialId: "cred-a", user: null, clientId: null, sessionId: null },
+  target: null,
+  outcome: "success",
+  status: 200,
+  durationMs: 1,
+  requests: [],
+  ...fields,
+});
+
+describe("AuditLog", () => {
+  it("rotates into numbered files and keeps at most maxFiles of them", async () => {
+    const file = path.join(dir, "rotate", "audit.jsonl");
+    const line = Buffer.byteLength(`${JSON.stringify(auditEntry("x"))}\n`);
+    // room for two entries per file
+    const log = new AuditLog(file, line * 2 + 10, 2);
+    for (let i = 0; i < 8; i++) await log.append(auditEntry(`tool-${i}`));
+
+    expect(fs.readdirSync(path.dirname(file)).sort()).toEqual(["audit.jsonl", "audit.jsonl.1", "audit.jsonl.2"]);
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+    // the oldest files were dropped; queries span the current and rotated files, newest first
+    const tools = (await log.query()).map((e) => e.tool);
+    expect(tools).toEqual(["tool-7", "tool-6", "tool-5", "tool-4", "tool-3", "tool-2"]);
+    expect((await log.query({ limit: 3 })).map((e) => e.tool)).toEqual(["tool-7", "tool-6", "tool-5"]);
+  });
+
+  it("filters by tool, resource, credential and time", async () => {
+    const file = path.join(dir, "query.jsonl");
+    const log = new AuditLog(file);
+    const first = auditEntry("openproject-update-task", {
+      target: "work_packages/12",
+      requests: [{ method: "PATCH", path: "work_packages/12", status: 200 }],
+    });
+    await log.append(first);
+    await log.append(
+      auditEntry("openproject-add-comment", {
+        target: "work_packages/12",
+        requests: [{ method: "POST", path: "work_packages/12/activities", status: 201 }],
+        actor: { credentialId: "cred-b", user: null, clientId: null, sessionId: null },
+      })
+    );
+    await log.append(auditEntry("openproject-create-project", { target: "projects/3" }));
+    fs.appendFileSync(file, '{"torn\n');
+
+    const tools = async (q: Parameters<AuditLog["query"]>[0]) => (await log.query(q)).map((e) => e.tool);
+    expect(await tools({ tool: "openproject-update-*" })).toEqual(["openproject-update-task"]);
+    expect(await tools({ resource: "/work_packages/12" })).toEqual(["openproject-add-comment", "openproject-update-task"]);
+    expect(await tools({ resource: "work_packages/1" })).toEqual([]);
+    expect(await tools({ credentialId: "cred-b" })).toEqual(["openproject-add-comment"]);
+    expect(await tools({ from: first.at, to: first.at })).toEqual(["openproject-update-task"]);
+  });
+});
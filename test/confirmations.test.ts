@@ -0,0 +1,85 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { startMockOpenProject, type MockOpenProject } from "./mockOpenProject.js";
+import { confirmDestructive, previewWorkPackageDeletion } from "../src/confirmations.js";
+import { getOpenProjectApi } from "../src/helpers.js";
+
+let op: MockOpenProject;
+
+beforeAll(async () => {
+  op = await startMockOpenProject();
+  process.env.OPENPROJECT_URL = op.url;
+  process.env.OPENPROJECT_API_KEY = "test-key";
+  process.env.OPENPROJECT_CACHE = "none";
+});
+
+afterAll(() => op.close());
+afterEach(() => vi.restoreAllMocks());
+
+const TOOL = "openproject-delete-task";
+const noElicitation: any = { getClientCapabilities: () => undefined };
+const api = () => getOpenProjectApi()!;
+const confirm = (taskId: string, token?: string, server = noElicitation) =>
+  confirmDestructive(server, api(), undefined, {
+    tool: TOOL,
+    target: taskId,
+    token,
+    preview: () => previewWorkPackageDeletion(api(), taskId),
+  });
+
+/** First phase: the preview result and the token it issued. */
+async function preview(taskId: string) {
+  const result = await confirm(taskId);
+  const data = JSON.parse((result?.content[1] as any).text);
+  return { result, token: data.confirmationToken as string, preview: data.preview };
+}
+
+const text = (result: any) => result?.content?.[0]?.text;
+
+describe("confirmDestructive", () => {
+  it("returns a preview and a token instead of proceeding", async () => {
+    const { result, token, preview: details } = await preview("10");
+    expect(text(result)).toMatch(/^Confirmation required: Delete work package #10 "In alpha"/);
+    expect(token).toBeTruthy();
+    expect(details).toMatchObject({ id: "10", subject: "In alpha", project: "Alpha", children: 3 });
+  });
+
+  it("proceeds with a token issued for the same tool and target, only once", async () => {
+    const { token } = await preview("10");
+    expect(await confirm("10", token)).toBeNull();
+    expect(text(await confirm("10", token))).toMatch(/^ERROR: invalid or expired confirmation token/);
+  });
+
+  it("rejects a token issued for another target and consumes it", async () => {
+    const { token } = await preview("10");
+    expect(text(await confirm("20", token))).toMatch(/^ERROR: invalid or expired confirmation token/);
+    expect(text(await confirm("10", token))).toMatch(/^ERROR: invalid or expired confirmation token/);
+  });
+
+  it("rejects a token issued for another tool", async () => {
+    const { token } = await preview("10");
+    const result = await confirmDestructive(noElicitation, api(), undefined, {
+      tool: "openproject-delete-project",
+      target: "10",
+      token,
+      preview: () => previewWorkPackageDeletion(api(), "10"),
+    });
+    expect(text(result)).toMatch(/^ERROR: invalid or expired confirmation token/);
+  });
+
+  it("rejects an expired token", async () => {
+    const { token } = await preview("10");
+    const now = Date.now();
+    vi.spyOn(Date, "now").mockReturnValue(now + 121_000);
+    expect(text(await confirm("10", token))).toMatch(/^ERROR: invalid or expired confirmation token/);
+  });
+
+  it("asks through elicitation when the client supports it", async () => {
+    const elicit = (action: string, confirmed?: boolean): any => ({
+      getClientCapabilities: () => ({ elicitation: {} }),
+      elicitInput: async () => ({ action, content: confirmed === undefined ? undefined : { confirm: confirmed } }),
+    });
+    expect(await confirm("10", undefined, elicit("accept", true))).toBeNull();
+    expect(text(await confirm("10", undefined, elicit("accept", false)))).toMatch(/^Cancelled: Delete work package #10/);
+    expect(text(await confirm("10", undefined, elicit("decline")))).toMatch(/^Cancelled:/);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { isoDurationToHours, toIsoDuration } from "../src/helpers.js";
+
+describe("toIsoDuration", () => {
+  it("converts decimal hours", () => {
+    expect(toIsoDuration(1.5)).toBe("PT1H30M");
+    expect(toIsoDuration("2")).toBe("PT2H");
+    expect(toIsoDuration(0.25)).toBe("PT15M");
+    expect(toIsoDuration(0)).toBe("PT0M");
+  });
+
+  it("converts hour/minute notation", () => {
+    expect(toIsoDuration("1h30m")).toBe("PT1H30M");
+    expect(toIsoDuration("1h 30m")).toBe("PT1H30M");
+    expect(toIsoDuration("45m")).toBe("PT45M");
+    expect(toIsoDuration("90min")).toBe("PT1H30M");
+    expect(toIsoDuration("1.5h")).toBe("PT1H30M");
+  });
+
+  it("passes ISO durations through", () => {
+    expect(toIsoDuration("pt2h15m")).toBe("PT2H15M");
+  });
+
+  it("rejects unparsable and negative values", () => {
+    expect(toIsoDuration("soon")).toBeNull();
+    expect(toIsoDuration("h")).toBeNull();
+    expect(toIsoDuration(-1)).toBeNull();
+    expect(toIsoDuration(Number.NaN)).toBeNull();
+  });
+});
+
+describe("isoDurationToHours", () => {
+  it("converts ISO durations to decimal hours", () => {
+    expect(isoDurationToHours("PT1H30M")).toBe(1.5);
+    expect(isoDurationToHours("PT45M")).toBe(0.75);
+    expect(isoDurationToHours("P1DT2H")).toBe(26);
+    expect(isoDurationToHours("PT20M")).toBe(0.33);
+  });
+
+  it("returns null for missing or invalid durations", () => {
+    expect(isoDurationToHours(null)).toBeNull();
+    expect(isoDurationToHours("")).toBeNull();
+    expect(isoDurationToHours("1.5")).toBeNull();
+  });
+
+  it("round-trips with toIsoDuration", () => {
+    expect(isoDurationToHours(toIsoDuration("2h45m"))).toBe(2.75);
+  });
+});
@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { InMemoryEventStore, createEventStore } from "../src/eventStore.js";
+
+const note = (n: number): JSONRPCMessage => ({ jsonrpc: "2.0", method: "notifications/message", params: { n } });
+
+/** Event IDs and messages replayed after `lastEventId`. */
+async function replay(store: InMemoryEventStore, lastEventId: string) {
+  const sent: Array<[string, JSONRPCMessage]> = [];
+  const streamId = await store.replayEventsAfter(lastEventId, { send: async (id, message) => void sent.push([id, message]) });
+  return { streamId, sent };
+}
+
+afterEach(() => {
+  delete process.env.MCP_EVENT_STORE;
+  delete process.env.MCP_EVENT_STORE_MAX_EVENTS;
+});
+
+describe("InMemoryEventStore", () => {
+  it("replays the later events of the same stream only", async () => {
+    const store = new InMemoryEventStore();
+    const first = await store.storeEvent("_GET_stream", note(1));
+    await store.storeEvent("request-stream", note(2));
+    const third = await store.storeEvent("_GET_stream", note(3));
+
+    const { streamId, sent } = await replay(store, first);
+    expect(streamId).toBe("_GET_stream");
+    expect(sent).toEqual([[third, note(3)]]);
+  });
+
+  it("replays nothing for unknown or evicted event IDs", async () => {
+    const store = new InMemoryEventStore(2);
+    const first = await store.storeEvent("_GET_stream", note(1));
+    await store.storeEvent("_GET_stream", note(2));
+    await store.storeEvent("_GET_stream", note(3));
+
+    expect(await replay(store, first)).toEqual({ streamId: "", sent: [] });
+    expect(await replay(store, "_GET_stream_0_1")).toEqual({ streamId: "", sent: [] });
+  });
+});
+
+describe("createEventStore", () => {
+  it("creates a separate store per call unless disabled", () => {
+    expect(createEventStore()).not.toBe(createEventStore());
+    process.env.MCP_EVENT_STORE = "none";
+    expect(createEventStore()).toBeUndefined();
+  });
+});
@@ -0,0 +1,124 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import {
+  InMemoryWebhookEventStore,
+  JsonlWebhookEventStore,
+  matchesEventType,
+  parseWebhookPayload,
+  type OpenProjectEvent,
+} from "../src/events.js";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "events-test-"));
+
+afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const workPackagePayload = (id: number, project = "3") => ({
+  action: "work_package:updated",
+  work_package: {
+    id,
+    subject: `Task ${id}`,
+    updatedAt: "2024-05-01T10:00:00Z",
+    _links: {
+      project: { href: `/api/v3/projects/${project}`, title: "Website" },
+      status: { href: "/api/v3/statuses/2", title: "In progress" },
+      assignee: { href: "/api/v3/users/5", title: "Ann Lee" },
+    },
+  },
+});
+
+const event = (id: number, receivedAt = new Date()) => parseWebhookPayload(workPackagePayload(id), receivedAt) as OpenProjectEvent;
+
+describe("parseWebhookPayload", () => {
+  it("types work package events with their project and a concise resource", () => {
+    const e = parseWebhookPayload(workPackagePayload(12), new Date("2024-05-01T10:00:01Z"))!;
+    expect(e).toMatchObject({
+      kind: "work_package",
+      action: "work_package:updated",
+      receivedAt: "2024-05-01T10:00:01.000Z",
+      resourceId: "12",
+      projectId: "3",
+      projectName: "Website",
+      workPackageId: "12",
+      resource: { id: 12, subject: "Task 12", status: "In progress", assignee: "Ann Lee" },
+    });
+  });
+
+  it("attributes time entries and attachments to their work package", () => {
+    const timeEntry = parseWebhookPayload({
+      action: "time_entry:created",
+      time_entry: { id: 4, hours: "PT1H", _links: { workPackage: { href: "/api/v3/work_packages/12" }, project: { href: "/api/v3/projects/3" } } },
+    })!;
+    expect(timeEntry).toMatchObject({ kind: "time_entry", workPackageId: "12", projectId: "3" });
+
+    const attachment = parseWebhookPayload({
+      action: "attachment:created",
+      attachment: { id: 9, fileName: "a.png", _links: { container: { href: "/api/v3/work_packages/12" } } },
+    })!;
+    expect(attachment).toMatchObject({ kind: "attachment", workPackageId: "12", resource: { fileName: "a.png" } });
+  });
+
+  it("uses the project itself for project events", () => {
+    const e = parseWebhookPayload({ action: "project:created", project: { id: 7, name: "New", identifier: "new" } })!;
+    expect(e).toMatchObject({ projectId: "7", projectName: "New", workPackageId: null });
+  });
+
+  it("returns null for unrecognized payloads", () => {
+    expect(parseWebhookPayload({ action: "meeting:created" })).toBeNull();
+    expect(parseWebhookPayload({})).toBeNull();
+    expect(parseWebhookPayload(null)).toBeNull();
+  });
+});
+
+describe("matchesEventType", () => {
+  it("matches exact actions and kind wildcards", () => {
+    expect(matchesEventType("work_package:updated", undefined)).toBe(true);
+    expect(matchesEventType("work_package:updated", ["work_package:*"])).toBe(true);
+    expect(matchesEventType("work_package:updated", ["work_package:created"])).toBe(false);
+  });
+});
+
+describe("InMemoryWebhookEventStore", () => {
+  it("keeps the newest events and queries newest first", async () => {
+    const store = new InMemoryWebhookEventStore(2);
+    for (const id of [1, 2, 3]) await store.append(event(id));
+    const found = await store.query({});
+    expect(found.map((e) => e.resourceId)).toEqual(["3", "2"]);
+    expect(await store.query({ projectId: "Website", limit: 1 })).toHaveLength(1);
+    expect(await store.query({ projectId: "4" })).toEqual([]);
+  });
+
+  it("filters by time window", async () => {
+    const store = new InMemoryWebhookEventStore();
+    await store.append(event(1, new Date("2024-05-01T09:00:00Z")));
+    await store.append(event(2, new Date("2024-05-01T11:00:00Z")));
+    const found = await store.query({ since: new Date("2024-05-01T10:00:00Z"), until: new Date("2024-05-01T12:00:00Z") });
+    expect(found.map((e) => e.resourceId)).toEqual(["2"]);
+  });
+});
+
+describe("JsonlWebhookEventStore", () => {
+  const lineCount = (file: string) => fs.readFileSync(file, "utf8").split("\n").filter(Boolean).length;
+
+  it("compacts the file to the window once it holds twice the bound", async () => {
+    const file = path.join(dir, "compact.jsonl");
+    const store = new JsonlWebhookEventStore(file, 2);
+    for (const id of [1, 2, 3, 4]) await store.append(event(id));
+    expect(lineCount(file)).toBe(4);
+    await store.append(event(5));
+    expect(lineCount(file)).toBe(2);
+    expect((await store.query({})).map((e) => e.resourceId)).toEqual(["5", "4"]);
+  });
+
+  it("restores the tail of the file on load, skipping torn lines", async () => {
+    const file = path.join(dir, "load.jsonl");
+    const lines = [1, 2, 3, 4, 5, 6].map((id) => JSON.stringify(event(id)));
+    fs.writeFileSync(file, `${lines.slice(0, 5).join("\n")}\n{"torn\n${lines[5]}\n`);
+    const store = new JsonlWebhookEventStore(file, 2);
+    await store.load();
+    expect((await store.query({})).map((e) => e.resourceId)).toEqual(["6", "5"]);
+    // 7 lines exceed twice the bound, so loading compacted the file
+    expect(lineCount(file)).toBe(2);
+  });
+});
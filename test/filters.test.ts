@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import { apiFilter, customFieldFilters, filtersParam, statusFilter, toQueryFilter } from "../src/helpers.js";
+
+const statuses = [
+  { id: "1", isClosed: false },
+  { id: "2", isClosed: false },
+  { id: "3", isClosed: true },
+];
+
+describe("apiFilter", () => {
+  it("builds a single filter with string values", () => {
+    expect(apiFilter("assignee", "=", [7, "me"])).toEqual({ assignee: { operator: "=", values: ["7", "me"] } });
+    expect(apiFilter("status", "o")).toEqual({ status: { operator: "o", values: [] } });
+  });
+});
+
+describe("filtersParam", () => {
+  it("serializes filters and omits an empty list", () => {
+    expect(filtersParam([apiFilter("type", "=", [1])])).toBe('[{"type":{"operator":"=","values":["1"]}}]');
+    expect(filtersParam([])).toBeUndefined();
+  });
+});
+
+describe("toQueryFilter", () => {
+  it("references link-valued filter values by href", () => {
+    expect(toQueryFilter(apiFilter("status", "=", [3]))).toEqual({
+      _links: {
+        filter: { href: "/api/v3/queries/filters/status" },
+        operator: { href: "/api/v3/queries/operators/%3D" },
+        values: [{ href: "/api/v3/statuses/3" }],
+      },
+    });
+  });
+
+  it("references principal filter values by their own href", () => {
+    expect(toQueryFilter(apiFilter("assignee", "=", ["/api/v3/groups/4", "me"]))._links.values).toEqual([
+      { href: "/api/v3/groups/4" },
+      { href: "/api/v3/users/me" },
+    ]);
+  });
+
+  it("passes raw values of other filters", () => {
+    expect(toQueryFilter(apiFilter("dueDate", "<>d", ["2024-01-01", ""]))).toEqual({
+      _links: {
+        filter: { href: "/api/v3/queries/filters/dueDate" },
+        operator: { href: "/api/v3/queries/operators/%3C%3Ed" },
+      },
+      values: ["2024-01-01", ""],
+    });
+  });
+});
+
+describe("statusFilter", () => {
+  it("uses the open/closed operators for a state alone", () => {
+    expect(statusFilter(null, null, "open")).toEqual({ status: { operator: "o", values: [] } });
+    expect(statusFilter(null, null, "closed")).toEqual({ status: { operator: "c", values: [] } });
+    expect(statusFilter(null, null, "all")).toBeNull();
+  });
+
+  it("keeps plain include and exclude lists", () => {
+    expect(statusFilter(["1", "3"], null, "all")).toEqual({ status: { operator: "=", values: ["1", "3"] } });
+    expect(statusFilter(null, ["3"], "all")).toEqual({ status: { operator: "!", values: ["3"] } });
+  });
+
+  it("merges status, state and excluded statuses into one filter", () => {
+    expect(statusFilter(["1", "3"], null, "open", statuses)).toEqual({ status: { operator: "=", values: ["1"] } });
+    expect(statusFilter(null, ["2"], "open", statuses)).toEqual({ status: { operator: "=", values: ["1"] } });
+    expect(statusFilter(["1", "2"], ["2"], "all")).toEqual({ status: { operator: "=", values: ["1"] } });
+    expect(statusFilter(["3"], null, "open", statuses)).toEqual({ status: { operator: "=", values: [] } });
+  });
+});
+
+/** Filter instance schemas of a list field (Severity), a user field (Reviewer), a version field and a text field. */
+const filterSchemas = {
+  _embedded: {
+    elements: [
+      {
+        _links: { filter: { href: "/api/v3/queries/filters/customField1", title: "Severity" } },
+        _embedded: {
+          dependency: {
+            _embedded: {
+              values: {
+                _links: {
+                  allowedValues: [
+                    { href: "/api/v3/custom_options/11", title: "Critical" },
+                    { href: "/api/v3/custom_options/12", title: "Minor" },
+                  ],
+                },
+              },
+            },
+          },
+        },
+      },
+      {
+        _links: { filter: { href: "/api/v3/queries/filters/customField2", title: "Reviewer" } },
+        _embedded: { dependency: { _embedded: { values: { type: "[]User" } } } },
+      },
+      {
+        _links: { filter: { href: "/api/v3/queries/filters/customField3", title: "Target release" } },
+        _embedded: { dependency: { _embedded: { values: { _links: { allowedValues: { href: "/api/v3/versions" } } } } } },
+      },
+      { _links: { filter: { href: "/api/v3/queries/filters/customField4", title: "Notes" } } },
+    ],
+  },
+};
+
+/** Axios stand-in answering the GETs customFieldFilters sends. */
+const stubApi = {
+  get: async (path: string, config?: any) => {
+    if (path.endsWith("/filter_instance_schemas")) return { data: filterSchemas };
+    if (path === "/principals") {
+      const query = JSON.parse(config.params.filters)[0].any_name_attribute.values[0];
+      const users = [{ id: 5, name: "Ann Lee", login: "ann" }];
+      return { data: { _embedded: { elements: users.filter((u) => u.login === query || u.name === query) } } };
+    }
+    if (path.endsWith("/versions")) {
+      return { data: { _embedded: { elements: [{ name: "1.0", _links: { self: { href: "/api/v3/versions/8" } } }] } } };
+    }
+    throw new Error(`unexpected GET ${path}`);
+  },
+} as any;
+
+describe("customFieldFilters", () => {
+  it("maps list option titles and IDs to option IDs", async () => {
+    const { filters, errors } = await customFieldFilters(stubApi, { severity: ["Critical", "12"] });
+    expect(errors).toEqual([]);
+    expect(filters).toEqual([{ customField1: { operator: "=", values: ["11", "12"] } }]);
+  });
+
+  it("resolves user and version fields by name", async () => {
+    const { filters, errors } = await customFieldFilters(stubApi, { Reviewer: ["ann", "me"], "Target release": "1.0" }, "1");
+    expect(errors).toEqual([]);
+    expect(filters).toEqual([
+      { customField2: { operator: "=", values: ["5", "me"] } },
+      { customField3: { operator: "=", values: ["8"] } },
+    ]);
+  });
+
+  it("matches free-form fields by substring, or exactly for numbers, dates and booleans", async () => {
+    expect((await customFieldFilters(stubApi, { Notes: "flaky" })).filters).toEqual([
+      { customField4: { operator: "~", values: ["flaky"] } },
+    ]);
+    expect((await customFieldFilters(stubApi, { Notes: "true" })).filters).toEqual([
+      { customField4: { operator: "=", values: ["t"] } },
+    ]);
+  });
+
+  it("reports unknown fields and values", async () => {
+    const { errors } = await customFieldFilters(stubApi, { Missing: "x", Severity: "Blocker", Reviewer: "bob" });
+    expect(errors).toEqual([
+      'unknown custom field filter "Missing"',
+      'invalid value "Blocker" for custom field "Severity"',
+      'invalid value "bob" for custom field "Reviewer"',
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import {
+  etagCacheLookups,
+  instrumentToolCall,
+  openProjectRequestDuration,
+  renderMetrics,
+  routeTemplate,
+  webhooksRejected,
+} from "../src/metrics.js";
+
+const text = (t: string) => ({ content: [{ type: "text" as const, text: t }] });
+
+describe("routeTemplate", () => {
+  it("replaces numeric and schema IDs and drops the host, API prefix and query", () => {
+    expect(routeTemplate("https://op.example.com/api/v3/work_packages/12/activities?pageSize=5")).toBe(
+      "/work_packages/:id/activities"
+    );
+    expect(routeTemplate("/api/v3/work_packages/schemas/3-1")).toBe("/work_packages/schemas/:id");
+    expect(routeTemplate("/projects/alpha/versions")).toBe("/projects/alpha/versions");
+  });
+
+  it("falls back for missing and root paths", () => {
+    expect(routeTemplate(undefined)).toBe("unknown");
+    expect(routeTemplate("/api/v3")).toBe("/");
+  });
+});
+
+describe("renderMetrics", () => {
+  it("renders counters with escaped labels and a hit ratio gauge", () => {
+    webhooksRejected.inc({ reason: 'bad "sig"\n' });
+    etagCacheLookups.inc({ result: "hit" });
+    etagCacheLookups.inc({ result: "miss" }, 3);
+    const out = renderMetrics();
+    expect(out).toContain("# TYPE openproject_webhooks_rejected_total counter");
+    expect(out).toContain('openproject_webhooks_rejected_total{reason="bad \\"sig\\"\\n"} 1');
+    expect(out).toContain("openproject_etag_cache_hit_ratio 0.25");
+    expect(out.endsWith("\n")).toBe(true);
+  });
+
+  it("renders cumulative histogram buckets, sum and count", () => {
+    const labels = { method: "GET", route: "/metrics-test", status: "200" };
+    openProjectRequestDuration.observe(labels, 0.2);
+    openProjectRequestDuration.observe(labels, 3);
+    const series = 'method="GET",route="/metrics-test",status="200"';
+    const out = renderMetrics();
+    expect(out).toContain(`openproject_http_request_duration_seconds_bucket{${series},le="0.1"} 0`);
+    expect(out).toContain(`openproject_http_request_duration_seconds_bucket{${series},le="0.25"} 1`);
+    expect(out).toContain(`openproject_http_request_duration_seconds_bucket{${series},le="5"} 2`);
+    expect(out).toContain(`openproject_http_request_duration_seconds_bucket{${series},le="+Inf"} 2`);
+    expect(out).toContain(`openproject_http_request_duration_seconds_sum{${series}} 3.2`);
+    expect(out).toContain(`openproject_http_request_duration_seconds_count{${series}} 2`);
+  });
+});
+
+describe("instrumentToolCall", () => {
+  it("counts calls and treats ERROR results and exceptions as errors", async () => {
+    await instrumentToolCall("metrics-ok", async () => text("fine"));
+    await instrumentToolCall("metrics-failed", async () => text("ERROR: nope"));
+    await expect(instrumentToolCall("metrics-failed", async () => Promise.reject(new Error("boom")))).rejects.toThrow("boom");
+    const out = renderMetrics();
+    expect(out).toContain('mcp_tool_calls_total{tool="metrics-ok"} 1');
+    expect(out).not.toContain('mcp_tool_errors_total{tool="metrics-ok"}');
+    expect(out).toContain('mcp_tool_calls_total{tool="metrics-failed"} 2');
+    expect(out).toContain('mcp_tool_errors_total{tool="metrics-failed"} 2');
+    expect(out).toContain('mcp_tool_duration_seconds_count{tool="metrics-failed",outcome="error"} 2');
+  });
+});
@@ -0,0 +1,65 @@
+import http from "http";
+
+export type MockRequest = { method: string; path: string; body: any };
+
+export type MockOpenProject = {
+  url: string;
+  requests: MockRequest[];
+  close: () => Promise<void>;
+};
+
+const projects: Record<string, any> = {
+  "1": { id: 1, identifier: "alpha", name: "Alpha" },
+  "2": { id: 2, identifier: "beta", name: "Beta" },
+};
+
+const workPackages: Record<string, any> = {
+  "10": { id: 10, subject: "In alpha", lockVersion: 1, project: "1" },
+  "20": { id: 20, subject: "In beta", lockVersion: 1, project: "2" },
+};
+
+const projectLink = (id: string) => ({ href: `/api/v3/projects/${id}`, title: projects[id].name });
+
+/**
+ * Minimal OpenProject API v3 double: projects 1 (alpha) and 2 (beta), work package 10 in alpha and
+ * 20 in beta. Collections report `total: 3`; writes succeed and are recorded in `requests`.
+ */
+export async function startMockOpenProject(): Promise<MockOpenProject> {
+  const requests: MockRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (c) => (raw += c));
+    req.on("end", () => {
+      const path = (req.url ?? "").split("?")[0].replace(/^\/api\/v3/, "");
+      requests.push({ method: req.method ?? "GET", path, body: raw ? JSON.parse(raw) : undefined });
+      const send = (status: number, body?: unknown) => {
+        res.statusCode = status;
+        res.setHeader("content-type", "application/json");
+        res.end(body === undefined ? "" : JSON.stringify(body));
+      };
+      if (req.method === "DELETE") return send(204);
+
+      let m = /^\/projects\/([^/]+)$/.exec(path);
+      if (m) {
+        const project = projects[m[1]] ?? Object.values(projects).find((p) => p.identifier === m![1]);
+        return project ? send(200, { ...project, _links: {} }) : send(404, { message: "not found" });
+      }
+      m = /^\/work_packages\/(\d+)$/.exec(path);
+      if (m) {
+        const wp = workPackages[m[1]];
+        if (!wp) return send(404, { message: "not found" });
+        if (req.method === "PATCH") return send(200, { ...wp, lockVersion: wp.lockVersion + 1, _links: { project: projectLink(wp.project) } });
+        return send(200, { ...wp, _links: { project: projectLink(wp.project) } });
+      }
+      if (path === "/users/me") return send(200, { id: 7, login: "ann", name: "Ann" });
+      if (req.method !== "GET") return send(201, { id: 99, _links: {} });
+      send(200, { _type: "Collection", total: 3, count: 0, _embedded: { elements: [] } });
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return {
+    url: `http://127.0.0.1:${(server.address() as any).port}`,
+    requests,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
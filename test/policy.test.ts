@@ -0,0 +1,130 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startMockOpenProject, type MockOpenProject } from "./mockOpenProject.js";
+import {
+  checkToolCall,
+  projectScopeFilter,
+  scopedWrites,
+  toolPermitted,
+  FORBIDDEN_BY_POLICY,
+  type Policy,
+} from "../src/policy.js";
+import { getOpenProjectApi, runInToolCallScope } from "../src/helpers.js";
+
+let op: MockOpenProject;
+
+beforeAll(async () => {
+  op = await startMockOpenProject();
+  process.env.OPENPROJECT_URL = op.url;
+  process.env.OPENPROJECT_API_KEY = "test-key";
+  process.env.OPENPROJECT_CACHE = "none";
+});
+
+afterAll(() => op.close());
+
+const scoped: Policy[] = [{ projects: ["alpha"] }];
+const text = (result: any) => result?.content?.[0]?.text;
+
+describe("toolPermitted", () => {
+  it("hides mutating tools in read-only mode and applies allow/deny globs", () => {
+    expect(toolPermitted({ readOnly: true }, "openproject-delete-task")).toBe(false);
+    expect(toolPermitted({ readOnly: true }, "openproject-get-task")).toBe(true);
+    expect(toolPermitted({ denyTools: ["openproject-delete-*"] }, "openproject-delete-project")).toBe(false);
+    expect(toolPermitted({ allowTools: ["openproject-list-*"] }, "openproject-get-task")).toBe(false);
+  });
+
+  it("keeps the notification stream demo tool in read-only mode", () => {
+    expect(toolPermitted({ readOnly: true }, "start-notification-stream")).toBe(true);
+  });
+});
+
+describe("checkToolCall project scoping", () => {
+  it("allows calls within the allowed projects, matching by ID or identifier", async () => {
+    expect(await checkToolCall(scoped, "openproject-get-project", { projectId: "1" })).toBeNull();
+    expect(await checkToolCall(scoped, "openproject-update-task", { taskId: "10" })).toBeNull();
+  });
+
+  it("rejects work packages of other projects", async () => {
+    const result = await checkToolCall(scoped, "openproject-update-task", { taskId: "20" });
+    expect(text(result)).toBe(`${FORBIDDEN_BY_POLICY}: project 2 is outside the allowed projects`);
+  });
+
+  it("rejects calls that range over all projects", async () => {
+    const result = await checkToolCall(scoped, "openproject-search-tasks", {});
+    expect(text(result)).toContain("must be scoped to an allowed project");
+  });
+
+  it("lets listing tools without a project through to filter their results", async () => {
+    expect(await checkToolCall(scoped, "openproject-list-tasks", {})).toBeNull();
+    expect(await checkToolCall(scoped, "openproject-list-projects", {})).toBeNull();
+    expect(await checkToolCall(scoped, "openproject-recent-events", {})).toBeNull();
+    const result = await checkToolCall(scoped, "openproject-list-tasks", { projectId: "2" });
+    expect(text(result)).toContain("project 2 is outside the allowed projects");
+  });
+
+  it("rejects sync pushes updating work packages of other projects", async () => {
+    const params = { projectId: "1", direction: "push", itemsToPush: [{ id: 20, subject: "x" }] };
+    const result = await checkToolCall(scoped, "openproject-sync", params);
+    expect(text(result)).toBe(`${FORBIDDEN_BY_POLICY}: project 2 is outside the allowed projects`);
+  });
+
+  it("allows sync pushes within the allowed project", async () => {
+    const params = { projectId: "1", direction: "push", itemsToPush: [{ id: 10, subject: "x" }, { subject: "new" }] };
+    expect(await checkToolCall(scoped, "openproject-sync", params)).toBeNull();
+  });
+
+  it("checks the project of bulk operations", async () => {
+    const result = await checkToolCall(scoped, "openproject-bulk-update-tasks", { ops: [{ id: 10 }, { projectId: "2" }] });
+    expect(text(result)).toContain("project 2 is outside the allowed projects");
+  });
+
+  it("accepts a parent given by subject without looking it up", async () => {
+    const params = { projectId: "1", subject: "Child", parentId: "Some parent subject" };
+    expect(await checkToolCall(scoped, "openproject-create-task", params)).toBeNull();
+  });
+});
+
+describe("projectScopeFilter", () => {
+  const clientScoped = { authInfo: { extra: { policy: { projects: ["alpha"] } } } } as any;
+
+  it("keeps the allowed projects only, by ID or identifier", async () => {
+    const inScope = projectScopeFilter(clientScoped);
+    expect(await inScope("1")).toBe(true);
+    expect(await inScope("alpha")).toBe(true);
+    expect(await inScope("2")).toBe(false);
+    expect(await inScope(null)).toBe(false);
+  });
+
+  it("keeps everything without a project scope", async () => {
+    expect(await projectScopeFilter(undefined)("2")).toBe(true);
+  });
+});
+
+describe("scopedWrites", () => {
+  const api = () => getOpenProjectApi()!;
+
+  it("is not installed without project scopes", () => {
+    expect(scopedWrites([{ readOnly: false }])).toBeNull();
+  });
+
+  it("blocks writes outside the allowed projects whatever parameter named them", async () => {
+    const hooks = scopedWrites(scoped)!;
+    const before = op.requests.filter((r) => r.method === "PATCH").length;
+    await expect(runInToolCallScope(hooks, () => api().patch("/work_packages/20", { subject: "x" }))).rejects.toThrow(
+      "forbidden by policy: PATCH /work_packages/20 targets project 2"
+    );
+    expect(op.requests.filter((r) => r.method === "PATCH").length).toBe(before);
+  });
+
+  it("checks the links of writes to collection endpoints", async () => {
+    const hooks = scopedWrites(scoped)!;
+    const outside = { _links: { definingProject: { href: "/api/v3/projects/2" } } };
+    await expect(runInToolCallScope(hooks, () => api().post("/versions", outside))).rejects.toThrow("outside the allowed projects");
+    await expect(runInToolCallScope(hooks, () => api().post("/projects", { name: "New" }))).rejects.toThrow("cannot verify the project");
+  });
+
+  it("lets writes within the allowed projects through", async () => {
+    const hooks = scopedWrites(scoped)!;
+    const response = await runInToolCallScope(hooks, () => api().patch("/work_packages/10", { subject: "x" }));
+    expect(response.status).toBe(200);
+  });
+});
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CircuitOpenError, HostGovernor, retryDelayMs } from "../src/rateLimiter.js";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2024-05-01T10:00:00Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+/** A governor with a generous rate, a breaker threshold of 3 and a 10s cooldown. */
+const governor = () => new HostGovernor("op.example.com", 100, 100, 8, 3, 10_000);
+
+/** Run one request through the governor with the given outcome. */
+async function request(g: HostGovernor, status?: number) {
+  await g.acquire();
+  g.record(status);
+  g.release();
+}
+
+describe("HostGovernor circuit breaker", () => {
+  it("opens after consecutive server errors and rejects until the cooldown elapsed", async () => {
+    const g = governor();
+    await request(g, 500);
+    await request(g, 502);
+    await request(g, 200);
+    expect(g.state().circuit).toBe("closed");
+
+    await request(g, 500);
+    await request(g);
+    await request(g, 503);
+    expect(g.state()).toMatchObject({ circuit: "open", consecutiveFailures: 3 });
+    await expect(g.acquire()).rejects.toThrow(CircuitOpenError);
+    await expect(g.acquire()).rejects.toThrow("retrying in 10s");
+
+    vi.advanceTimersByTime(10_000);
+    expect(g.state().circuit).toBe("half-open");
+  });
+
+  it("lets a single trial through when half-open and closes on its success", async () => {
+    const g = governor();
+    for (let i = 0; i < 3; i++) await request(g, 500);
+    vi.advanceTimersByTime(10_000);
+
+    await g.acquire();
+    await expect(g.acquire()).rejects.toThrow(CircuitOpenError);
+    g.record(200);
+    g.release();
+    expect(g.state()).toMatchObject({ circuit: "closed", consecutiveFailures: 0 });
+    await expect(g.acquire()).resolves.toBeUndefined();
+  });
+
+  it("reopens when the trial fails", async () => {
+    const g = governor();
+    for (let i = 0; i < 3; i++) await request(g, 500);
+    vi.advanceTimersByTime(10_000);
+
+    await request(g, 500);
+    expect(g.state().circuit).toBe("open");
+    await expect(g.acquire()).rejects.toThrow(CircuitOpenError);
+  });
+});
+
+describe("HostGovernor pause", () => {
+  it("holds requests back until the Retry-After pause ends", async () => {
+    const g = governor();
+    g.pause(2_000);
+    let acquired = false;
+    const pending = g.acquire().then(() => (acquired = true));
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(acquired).toBe(false);
+    await vi.advanceTimersByTimeAsync(1_000);
+    await pending;
+    expect(acquired).toBe(true);
+    expect(g.state().throttled).toBeGreaterThan(0);
+  });
+});
+
+describe("retryDelayMs", () => {
+  it("honors Retry-After seconds and HTTP dates, capped at 60s", () => {
+    expect(retryDelayMs("5", 0)).toBe(5_000);
+    expect(retryDelayMs("3600", 0)).toBe(60_000);
+    expect(retryDelayMs(new Date(Date.now() + 30_000).toUTCString(), 0)).toBe(30_000);
+    expect(retryDelayMs(new Date(Date.now() - 30_000).toUTCString(), 0)).toBe(0);
+  });
+
+  it("falls back to capped exponential backoff with jitter", () => {
+    const delay = retryDelayMs("soon", 3);
+    expect(delay).toBeGreaterThanOrEqual(800);
+    expect(delay).toBeLessThan(900);
+    expect(retryDelayMs(undefined, 20)).toBeLessThan(10_100);
+  });
+});
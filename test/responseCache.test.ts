@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  InMemoryResponseCache,
+  getResponseCache,
+  initResponseCache,
+  invalidateForEvent,
+  invalidateResponses,
+  resourcesOf,
+  responseCacheKey,
+} from "../src/responseCache.js";
+
+const entry = (data: unknown) => ({ etag: null, data, storedAt: Date.now() });
+
+afterEach(() => {
+  delete process.env.OPENPROJECT_CACHE;
+});
+
+describe("InMemoryResponseCache", () => {
+  it("evicts the least recently used entries beyond the byte bound", async () => {
+    const cache = new InMemoryResponseCache(100, 250);
+    await cache.set("a", entry("x".repeat(100)), 60_000);
+    await cache.set("b", entry("y".repeat(100)), 60_000);
+    await cache.get("a");
+    await cache.set("c", entry("z".repeat(100)), 60_000);
+    expect(await cache.get("b")).toBeNull();
+    expect(await cache.get("a")).not.toBeNull();
+    expect(cache.size).toBe(2);
+    expect(cache.byteSize).toBe(204);
+  });
+
+  it("does not store a body larger than the byte bound", async () => {
+    const cache = new InMemoryResponseCache(100, 50);
+    await cache.set("small", entry("ok"), 60_000);
+    await cache.set("huge", entry("x".repeat(100)), 60_000);
+    expect(await cache.get("huge")).toBeNull();
+    expect(await cache.get("small")).not.toBeNull();
+  });
+});
+
+describe("resourcesOf", () => {
+  it("lists the resource collections of a path, without IDs and form segments", () => {
+    expect(resourcesOf("https://op.example.com/api/v3/projects/3/work_packages?pageSize=5")).toEqual(["projects", "work_packages"]);
+    expect(resourcesOf("/work_packages/12/form")).toEqual(["work_packages"]);
+    expect(resourcesOf("/work_packages/schemas/3-1")).toEqual(["work_packages", "schemas"]);
+  });
+});
+
+describe("responseCacheKey", () => {
+  it("shares keys between equivalent queries and separates credentials", async () => {
+    const cache = new InMemoryResponseCache();
+    const key = await responseCacheKey(cache, "cred", "/projects?pageSize=5&offset=1");
+    expect(await responseCacheKey(cache, "cred", "/projects", { offset: 1, pageSize: 5, filters: undefined })).toBe(key);
+    expect(key).toBe("cred|projects@0|/projects?offset=1&pageSize=5");
+    expect(await responseCacheKey(cache, "other", "/projects?pageSize=5&offset=1")).not.toBe(key);
+  });
+
+  it("changes when a touched resource's generation is bumped", async () => {
+    const cache = new InMemoryResponseCache();
+    const key = await responseCacheKey(cache, "cred", "/projects/3/work_packages");
+    await cache.bump(["projects"]);
+    expect(await responseCacheKey(cache, "cred", "/projects/3/work_packages")).not.toBe(key);
+    const unrelated = await responseCacheKey(cache, "cred", "/statuses");
+    await cache.bump(["work_packages"]);
+    expect(await responseCacheKey(cache, "cred", "/statuses")).toBe(unrelated);
+  });
+});
+
+describe("invalidateResponses", () => {
+  it("invalidates dependent resources transitively", async () => {
+    process.env.OPENPROJECT_CACHE = "memory";
+    await initResponseCache();
+    const cache = getResponseCache()!;
+    const before = await cache.generations(["time_entries", "work_packages", "queries", "projects"]);
+    await invalidateResponses("/time_entries/4");
+    const after = await cache.generations(["time_entries", "work_packages", "queries", "projects"]);
+    expect(after.map((g, i) => g - before[i])).toEqual([1, 1, 1, 0]);
+  });
+
+  it("ignores form validation requests", async () => {
+    process.env.OPENPROJECT_CACHE = "memory";
+    await initResponseCache();
+    const cache = getResponseCache()!;
+    const before = await cache.generations(["work_packages"]);
+    await invalidateResponses("/work_packages/12/form");
+    expect(await cache.generations(["work_packages"])).toEqual(before);
+  });
+
+  it("invalidates the collection of a webhook event", async () => {
+    process.env.OPENPROJECT_CACHE = "memory";
+    await initResponseCache();
+    const cache = getResponseCache()!;
+    const [before] = await cache.generations(["attachments"]);
+    await invalidateForEvent({ kind: "attachment" } as any);
+    expect(await cache.generations(["attachments"])).toEqual([before + 1]);
+  });
+
+  it("invalidates saved query results on work package writes", async () => {
+    process.env.OPENPROJECT_CACHE = "memory";
+    await initResponseCache();
+    const cache = getResponseCache()!;
+    const before = await responseCacheKey(cache, "cred", "/queries/5");
+    await invalidateResponses("/work_packages/12");
+    expect(await responseCacheKey(cache, "cred", "/queries/5")).not.toBe(before);
+  });
+});
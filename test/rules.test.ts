@@ -0,0 +1,169 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { startMockOpenProject, type MockOpenProject } from "./mockOpenProject.js";
+import { evaluateRules, initRules } from "../src/rules.js";
+import { parseWebhookPayload } from "../src/events.js";
+import { getAuditLog } from "../src/audit.js";
+
+let op: MockOpenProject;
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "rules-test-"));
+
+beforeAll(async () => {
+  op = await startMockOpenProject();
+  process.env.OPENPROJECT_URL = op.url;
+  process.env.OPENPROJECT_API_KEY = "test-key";
+  process.env.OPENPROJECT_CACHE = "none";
+  process.env.OPENPROJECT_AUDIT_LOG = path.join(dir, "audit.jsonl");
+});
+
+afterAll(async () => {
+  await op.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  delete process.env.OPENPROJECT_READ_ONLY;
+  delete process.env.OPENPROJECT_ALLOWED_PROJECTS;
+});
+
+/** Load rules from a temporary YAML file. */
+function loadRules(yaml: string) {
+  const file = path.join(dir, `rules-${Math.random().toString(36).slice(2)}.yaml`);
+  fs.writeFileSync(file, yaml);
+  process.env.OPENPROJECT_RULES_FILE = file;
+  return initRules();
+}
+
+let lockVersion = 1;
+/** An update webhook for a work package; every call is a new version, so it is never a self-write. */
+function updated(id: number, project: string, fields: Record<string, unknown> = {}) {
+  const payload = {
+    action: "work_package:updated",
+    work_package: {
+      id,
+      subject: "Fix login",
+      lockVersion: ++lockVersion,
+      _links: {
+        project: { href: `/api/v3/projects/${project}`, title: project === "1" ? "Alpha" : "Beta" },
+        status: { href: "/api/v3/statuses/1", title: "New" },
+      },
+      ...fields,
+    },
+  };
+  return { event: parseWebhookPayload(payload)!, payload };
+}
+
+const comments = () => op.requests.filter((r) => r.method === "POST" && r.path.endsWith("/activities"));
+
+describe("rule policy and audit", () => {
+  it("records applied rule actions in the audit log with the rule as actor", async () => {
+    loadRules("- name: triage\n  match: { status: New }\n  actions:\n    - comment: Triaged {{id}}\n");
+    const { event, payload } = updated(10, "1");
+    const [firing] = await evaluateRules(event, payload);
+    expect(firing.outcome).toBe("applied");
+
+    const [entry] = await getAuditLog()!.query({ tool: "rule:triage" });
+    expect(entry.actor.clientId).toBe("rule:triage");
+    expect(entry.outcome).toBe("success");
+    expect(entry.requests).toEqual([{ method: "POST", path: "work_packages/10/activities", status: 201 }]);
+  });
+
+  it("sends no writes in read-only mode and audits the rejection", async () => {
+    process.env.OPENPROJECT_READ_ONLY = "true";
+    loadRules("- name: readonly\n  actions:\n    - comment: Hello\n");
+    const before = comments().length;
+    const { event, payload } = updated(10, "1");
+    const [firing] = await evaluateRules(event, payload);
+    expect(firing.outcome).toBe("error");
+    expect(firing.error).toContain("forbidden by policy");
+    expect(comments().length).toBe(before);
+
+    const [entry] = await getAuditLog()!.query({ tool: "rule:readonly" });
+    expect(entry.outcome).toBe("denied");
+  });
+
+  it("only writes within the allowed projects", async () => {
+    process.env.OPENPROJECT_ALLOWED_PROJECTS = "alpha";
+    loadRules("- name: scoped\n  actions:\n    - comment: Hello\n");
+    const before = comments().length;
+    const outside = updated(20, "2");
+    const [firing] = await evaluateRules(outside.event, outside.payload);
+    expect(firing.error).toContain("outside the allowed projects");
+    expect(comments().length).toBe(before);
+
+    const inside = updated(10, "1");
+    expect((await evaluateRules(inside.event, inside.payload))[0].outcome).toBe("applied");
+  });
+});
+
+describe("rule matching", () => {
+  const firedRules = async (fields: Record<string, unknown> = {}, project = "1") => {
+    const { event, payload } = updated(10, project, fields);
+    return (await evaluateRules(event, payload)).map((f) => f.rule);
+  };
+
+  it("applies project, status and subject conditions", async () => {
+    loadRules(`
+- name: alpha-new
+  dryRun: true
+  match: { project: Alpha, status: [New, Open] }
+  actions: [{ comment: x }]
+- name: beta-only
+  dryRun: true
+  match: { project: Beta }
+  actions: [{ comment: x }]
+- name: login-subject
+  dryRun: true
+  match: { subject: "^fix log" }
+  actions: [{ comment: x }]
+- name: created-only
+  dryRun: true
+  on: [work_package:created]
+  actions: [{ comment: x }]
+`);
+    expect(await firedRules()).toEqual(["alpha-new", "login-subject"]);
+  });
+
+  it("fires `changed` rules only when a tracked field changed", async () => {
+    loadRules("- name: on-status-change\n  dryRun: true\n  match: { changed: [status] }\n  actions: [{ comment: x }]\n");
+    const closed = { _links: { project: { href: "/api/v3/projects/1", title: "Alpha" }, status: { title: "Closed" } } };
+    // the first event has no previous state and counts as changed
+    expect(await firedRules({ id: 11 })).toEqual(["on-status-change"]);
+    expect(await firedRules({ id: 11, subject: "Renamed" })).toEqual([]);
+    expect(await firedRules({ id: 11, ...closed })).toEqual(["on-status-change"]);
+  });
+
+  it("records dry runs without writing", async () => {
+    loadRules("- name: dry\n  dryRun: true\n  actions: [{ comment: x }]\n");
+    const before = comments().length;
+    const { event, payload } = updated(10, "1");
+    const [firing] = await evaluateRules(event, payload);
+    expect(firing.outcome).toBe("dry_run");
+    expect(comments().length).toBe(before);
+  });
+});
+
+describe("rule loop protection", () => {
+  it("fires a rule at most once per work package within the cooldown", async () => {
+    loadRules("- name: cooldown\n  actions: [{ comment: x }]\n");
+    const first = updated(10, "1");
+    expect(await evaluateRules(first.event, first.payload)).toHaveLength(1);
+    const second = updated(10, "1");
+    expect(await evaluateRules(second.event, second.payload)).toEqual([]);
+    const other = updated(20, "2");
+    expect(await evaluateRules(other.event, other.payload)).toHaveLength(1);
+  });
+
+  it("does not react to the rule's own edit", async () => {
+    loadRules("- name: rename\n  actions: [{ update: { subject: Renamed } }]\n");
+    const trigger = updated(10, "1");
+    const [firing] = await evaluateRules(trigger.event, trigger.payload);
+    expect(firing.outcome).toBe("applied");
+    // the mock answers the PATCH with lockVersion 2; the webhook for that version is the rule's own
+    loadRules("- name: any-change\n  dryRun: true\n  actions: [{ comment: x }]\n");
+    const own = updated(10, "1", { lockVersion: 2 });
+    expect(await evaluateRules(own.event, own.payload)).toEqual([]);
+  });
+});
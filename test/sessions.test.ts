@@ -0,0 +1,188 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import express from "express";
+import { afterEach, describe, expect, it } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { createSessionManager, type SessionManager } from "../src/sessions.js";
+import { createEventStore } from "../src/eventStore.js";
+
+type Harness = { url: string; manager: SessionManager; servers: McpServer[]; close: () => Promise<void> };
+
+const harnesses: Harness[] = [];
+
+afterEach(async () => {
+  await Promise.all(harnesses.splice(0).map((h) => h.close()));
+});
+
+/** Serve a session manager on /mcp; the X-Test-Token header stands in for the credential auth.ts sets. */
+async function startHarness(idleTimeoutMs?: number): Promise<Harness> {
+  const servers: McpServer[] = [];
+  const manager = createSessionManager({
+    createServer: () => {
+      const server = new McpServer({ name: "test", version: "1.0.0" }, { capabilities: { resources: { subscribe: true } } });
+      servers.push(server);
+      return server;
+    },
+    createEventStore,
+    idleTimeoutMs,
+  });
+  const app = express();
+  app.use(express.json());
+  app.use("/mcp", (req, _res, next) => {
+    const token = req.header("x-test-token");
+    if (token) Object.assign(req, { auth: { token, clientId: "test", scopes: [] } });
+    next();
+  });
+  app.all("/mcp", (req, res) => void manager.handle(req, res));
+  const server = http.createServer(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const harness = {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`,
+    manager,
+    servers,
+    close: async () => {
+      await manager.closeAll();
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    },
+  };
+  harnesses.push(harness);
+  return harness;
+}
+
+const headers = (token: string | null, sessionId?: string, extra: Record<string, string> = {}) => ({
+  "content-type": "application/json",
+  accept: "application/json, text/event-stream",
+  ...(token ? { "x-test-token": token } : {}),
+  ...(sessionId ? { "mcp-session-id": sessionId } : {}),
+  ...extra,
+});
+
+/** Initialize a session with the given credential and return its ID. */
+async function initialize(h: Harness, token: string | null = "key-a"): Promise<string> {
+  const res = await fetch(h.url, {
+    method: "POST",
+    headers: headers(token),
+    body: JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test-client", version: "1.0.0" } },
+    }),
+  });
+  expect(res.status).toBe(200);
+  await res.text();
+  return res.headers.get("mcp-session-id")!;
+}
+
+const ping = (h: Harness, token: string | null, sessionId: string) =>
+  fetch(h.url, { method: "POST", headers: headers(token, sessionId), body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "ping" }) });
+
+/** Open the session's GET notification stream; returns a reader of its events and an abort. */
+async function openStream(h: Harness, sessionId: string, lastEventId?: string) {
+  const abort = new AbortController();
+  const res = await fetch(h.url, {
+    headers: headers("key-a", sessionId, lastEventId ? { "last-event-id": lastEventId } : {}),
+    signal: abort.signal,
+  });
+  expect(res.status).toBe(200);
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  const next = async (): Promise<{ id: string | undefined; uri: string }> => {
+    for (;;) {
+      const end = buffer.indexOf("\n\n");
+      if (end >= 0) {
+        const raw = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        const data = raw.match(/^data: (.*)$/m)?.[1];
+        if (data) return { id: raw.match(/^id: (.*)$/m)?.[1], uri: JSON.parse(data).params.uri };
+        continue;
+      }
+      const { value, done } = await reader.read();
+      if (done) throw new Error("stream ended");
+      buffer += decoder.decode(value, { stream: true });
+    }
+  };
+  return { next, close: () => abort.abort() };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+const notify = (server: McpServer, uri: string) => server.server.sendResourceUpdated({ uri });
+
+describe("session credential binding", () => {
+  it("serves a session only to the credential that initialized it", async () => {
+    const h = await startHarness();
+    const sessionId = await initialize(h, "key-a");
+    expect((await ping(h, "key-a", sessionId)).status).toBe(200);
+    expect((await ping(h, "key-b", sessionId)).status).toBe(404);
+    expect((await ping(h, null, sessionId)).status).toBe(404);
+    expect((await ping(h, "key-a", "unknown-session")).status).toBe(404);
+  });
+
+  it("requires an initialize request to create a session", async () => {
+    const h = await startHarness();
+    const res = await fetch(h.url, { method: "POST", headers: headers("key-a"), body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "ping" }) });
+    expect(res.status).toBe(400);
+    expect(h.manager.size()).toBe(0);
+  });
+});
+
+describe("session lifecycle", () => {
+  it("closes a session on DELETE /mcp", async () => {
+    const h = await startHarness();
+    const sessionId = await initialize(h);
+    expect(h.manager.size()).toBe(1);
+    const res = await fetch(h.url, { method: "DELETE", headers: headers("key-a", sessionId) });
+    expect(res.status).toBe(200);
+    expect(h.manager.size()).toBe(0);
+    expect((await ping(h, "key-a", sessionId)).status).toBe(404);
+  });
+
+  it("expires idle sessions but keeps sessions with an open GET stream", async () => {
+    const h = await startHarness(100);
+    const streaming = await initialize(h);
+    await initialize(h);
+    const stream = await openStream(h, streaming);
+
+    await sleep(350);
+    expect(h.manager.size()).toBe(1);
+    expect((await ping(h, "key-a", streaming)).status).toBe(200);
+
+    stream.close();
+    await sleep(350);
+    expect(h.manager.size()).toBe(0);
+  });
+});
+
+describe("stream resumability", () => {
+  it("replays only the reconnecting session's own events after Last-Event-ID", async () => {
+    const h = await startHarness();
+    const a = await initialize(h);
+    const b = await initialize(h);
+    const [serverA, serverB] = h.servers;
+    const streamA = await openStream(h, a);
+    const streamB = await openStream(h, b);
+
+    await notify(serverA, "openproject://work_packages/1");
+    const a1 = await streamA.next();
+    await notify(serverB, "openproject://work_packages/2");
+    const b1 = await streamB.next();
+    await notify(serverA, "openproject://work_packages/3");
+    await streamA.next();
+    streamA.close();
+    streamB.close();
+    await sleep(50);
+
+    const resumedA = await openStream(h, a, a1.id);
+    await notify(serverA, "openproject://done-a");
+    expect((await resumedA.next()).uri).toBe("openproject://work_packages/3");
+    expect((await resumedA.next()).uri).toBe("openproject://done-a");
+    resumedA.close();
+
+    const resumedB = await openStream(h, b, b1.id);
+    await notify(serverB, "openproject://done-b");
+    expect((await resumedB.next()).uri).toBe("openproject://done-b");
+    resumedB.close();
+  });
+});
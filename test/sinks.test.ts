@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { eventSummary, sinkBody, type Sink } from "../src/sinks.js";
+import { parseWebhookPayload, type OpenProjectEvent } from "../src/events.js";
+
+const event = parseWebhookPayload({
+  action: "work_package:updated",
+  work_package: {
+    id: 12,
+    subject: "Login <fails> & crashes",
+    _links: {
+      project: { href: "/api/v3/projects/3", title: "Backend" },
+      status: { href: "/api/v3/statuses/1", title: "New" },
+    },
+  },
+}) as OpenProjectEvent;
+
+const sink = (kind: Sink["kind"], extra: Partial<Sink> = {}): Sink => ({
+  name: kind,
+  kind,
+  url: "https://hooks.example.com/x",
+  maxRetries: 0,
+  ...extra,
+});
+
+afterEach(() => {
+  delete process.env.OPENPROJECT_URL;
+});
+
+describe("eventSummary", () => {
+  it("names the action, the resource and its project", () => {
+    expect(eventSummary(event)).toBe("Work package updated: #12 Login <fails> & crashes (Backend)");
+  });
+});
+
+describe("sinkBody", () => {
+  it("escapes Slack mrkdwn and links the work package", () => {
+    process.env.OPENPROJECT_URL = "https://op.example.com/";
+    const body = sinkBody(sink("slack"), event) as any;
+    const text = "Work package updated: #12 Login &lt;fails&gt; &amp; crashes (Backend)";
+    expect(body.text).toBe(`<https://op.example.com/work_packages/12|${text}>`);
+    expect(body.blocks[0].text.text).toBe(`*<https://op.example.com/work_packages/12|${text}>*`);
+    expect(body.blocks[1].elements).toContainEqual({ type: "mrkdwn", text: "*subject:* Login &lt;fails&gt; &amp; crashes" });
+  });
+
+  it("sends plain Slack text without a known OpenProject URL", () => {
+    const body = sinkBody(sink("slack"), event) as any;
+    expect(body.text).toBe("Work package updated: #12 Login &lt;fails&gt; &amp; crashes (Backend)");
+  });
+
+  it("wraps Teams messages in an Adaptive Card", () => {
+    process.env.OPENPROJECT_URL = "https://op.example.com";
+    const card = (sinkBody(sink("teams"), event) as any).attachments[0].content;
+    expect(card.type).toBe("AdaptiveCard");
+    expect(card.body[0].text).toBe(eventSummary(event));
+    expect(card.body[1].facts).toContainEqual({ title: "status", value: "New" });
+    expect(card.actions).toEqual([
+      { type: "Action.OpenUrl", title: "Open in OpenProject", url: "https://op.example.com/work_packages/12" },
+    ]);
+  });
+
+  it("posts the event itself to untemplated http sinks", () => {
+    expect(sinkBody(sink("http"), event)).toBe(event);
+  });
+
+  it("renders http templates, keeping the type of whole-value placeholders", () => {
+    const template = { id: "{{resource.id}}", text: "{{action}} on {{ projectName }}", missing: "{{nope.deep}}", tags: ["{{kind}}"] };
+    expect(sinkBody(sink("http", { template }), event)).toEqual({
+      id: 12,
+      text: "work_package:updated on Backend",
+      missing: null,
+      tags: ["work_package"],
+    });
+  });
+});
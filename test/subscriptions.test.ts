@@ -0,0 +1,47 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { startMockOpenProject, type MockOpenProject } from "./mockOpenProject.js";
+import { enableResourceSubscriptions } from "../src/subscriptions.js";
+
+let op: MockOpenProject;
+let client: Client;
+
+beforeAll(async () => {
+  op = await startMockOpenProject();
+  process.env.OPENPROJECT_URL = op.url;
+  process.env.OPENPROJECT_API_KEY = "test-key";
+  process.env.OPENPROJECT_CACHE = "none";
+  process.env.OPENPROJECT_ALLOWED_PROJECTS = "alpha";
+
+  const server = new McpServer({ name: "test", version: "1.0.0" }, { capabilities: { resources: { subscribe: true } } });
+  enableResourceSubscriptions(server);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(clientTransport);
+});
+
+afterAll(async () => {
+  delete process.env.OPENPROJECT_ALLOWED_PROJECTS;
+  await client.close();
+  await op.close();
+});
+
+describe("resources/subscribe", () => {
+  it("accepts work packages and projects within the project scope", async () => {
+    await expect(client.subscribeResource({ uri: "openproject://work_packages/10" })).resolves.toBeDefined();
+    await expect(client.subscribeResource({ uri: "openproject://projects/1" })).resolves.toBeDefined();
+  });
+
+  it("rejects resources outside the project scope", async () => {
+    await expect(client.subscribeResource({ uri: "openproject://work_packages/20" })).rejects.toThrow("forbidden by policy");
+    await expect(client.subscribeResource({ uri: "openproject://projects/beta" })).rejects.toThrow("forbidden by policy");
+  });
+
+  it("rejects unknown URIs and missing resources", async () => {
+    await expect(client.subscribeResource({ uri: "https://example.com/x" })).rejects.toThrow("Unknown resource");
+    await expect(client.subscribeResource({ uri: "openproject://work_packages/99" })).rejects.toThrow();
+  });
+});
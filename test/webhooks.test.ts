@@ -0,0 +1,126 @@
+import crypto from "crypto";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { forgetWebhookDelivery, verifyWebhookDelivery } from "../src/webhooks.js";
+
+const SECRET = "s3cret";
+
+/** Minimal express request double: headers (case-insensitive), parsed body and raw body. */
+function delivery(body: unknown, headers: Record<string, string> = {}): any {
+  const rawBody = Buffer.from(JSON.stringify(body));
+  const lower = Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v]));
+  return { body, rawBody, header: (name: string) => lower[name.toLowerCase()] };
+}
+
+const sign = (body: unknown, secret = SECRET, algorithm = "sha256") =>
+  `${algorithm}=${crypto.createHmac(algorithm, secret).update(JSON.stringify(body)).digest("hex")}`;
+
+let n = 0;
+/** A fresh payload per call so the duplicate check does not interfere between tests. */
+const payload = (updatedAt = new Date().toISOString()) => ({
+  action: "work_package:updated",
+  work_package: { id: 10, subject: `change ${++n}`, updatedAt },
+});
+
+beforeEach(() => {
+  process.env.OPENPROJECT_WEBHOOK_SECRET = SECRET;
+});
+
+afterEach(() => {
+  delete process.env.OPENPROJECT_WEBHOOK_SECRET;
+  delete process.env.OPENPROJECT_WEBHOOK_MAX_AGE_SEC;
+});
+
+describe("verifyWebhookDelivery", () => {
+  it("accepts a valid sha256 or sha1 signature", () => {
+    const a = payload();
+    expect(verifyWebhookDelivery(delivery(a, { "X-Op-Signature": sign(a) }))).toBeNull();
+    const b = payload();
+    expect(verifyWebhookDelivery(delivery(b, { "X-Op-Signature": sign(b, SECRET, "sha1") }))).toBeNull();
+  });
+
+  it("accepts any of several comma-separated secrets (rotation)", () => {
+    process.env.OPENPROJECT_WEBHOOK_SECRET = `old, ${SECRET}`;
+    const body = payload();
+    expect(verifyWebhookDelivery(delivery(body, { "X-Op-Signature": sign(body, "old") }))).toBeNull();
+  });
+
+  it("rejects missing, malformed and mismatching signatures", () => {
+    const body = payload();
+    expect(verifyWebhookDelivery(delivery(body))).toMatchObject({ status: 401, error: "missing_signature" });
+    expect(verifyWebhookDelivery(delivery(body, { "X-Op-Signature": "md5=abc" }))).toMatchObject({
+      status: 401,
+      error: "invalid_signature",
+    });
+    expect(verifyWebhookDelivery(delivery(body, { "X-Op-Signature": sign(body, "wrong") }))).toMatchObject({
+      status: 401,
+      error: "invalid_signature",
+    });
+  });
+
+  it("checks the legacy token header", () => {
+    expect(verifyWebhookDelivery(delivery(payload(), { "X-OpenProject-Webhook-Token": SECRET }))).toBeNull();
+    expect(verifyWebhookDelivery(delivery(payload(), { "X-OpenProject-Webhook-Token": "nope" }))).toMatchObject({
+      status: 401,
+      error: "invalid_token",
+    });
+  });
+
+  it("rejects stale and future deliveries", () => {
+    const stale = payload();
+    const hourAgo = String(Math.floor(Date.now() / 1000) - 3600);
+    expect(
+      verifyWebhookDelivery(delivery(stale, { "X-Op-Signature": sign(stale), "X-Op-Timestamp": hourAgo }))
+    ).toMatchObject({ status: 400, error: "stale_delivery" });
+    const body = payload();
+    const future = String(Math.floor(Date.now() / 1000) + 600);
+    expect(
+      verifyWebhookDelivery(delivery(body, { "X-Op-Signature": sign(body), "X-Op-Timestamp": future }))
+    ).toMatchObject({ status: 400, error: "future_delivery" });
+  });
+
+  it("only checks the age of a delivery timestamp header, not of the resource", () => {
+    const old = payload(new Date(Date.now() - 3600_000).toISOString());
+    expect(verifyWebhookDelivery(delivery(old, { "X-Op-Signature": sign(old) }))).toBeNull();
+  });
+
+  it("falls back to the default max age for an invalid OPENPROJECT_WEBHOOK_MAX_AGE_SEC", () => {
+    process.env.OPENPROJECT_WEBHOOK_MAX_AGE_SEC = "soon";
+    const body = payload();
+    const hourAgo = String(Math.floor(Date.now() / 1000) - 3600);
+    expect(
+      verifyWebhookDelivery(delivery(body, { "X-Op-Signature": sign(body), "X-Op-Timestamp": hourAgo }))
+    ).toMatchObject({ error: "stale_delivery" });
+    const fresh = payload();
+    expect(verifyWebhookDelivery(delivery(fresh, { "X-Op-Signature": sign(fresh) }))).toBeNull();
+    expect(verifyWebhookDelivery(delivery(fresh, { "X-Op-Signature": sign(fresh) }))).toMatchObject({
+      error: "duplicate_delivery",
+    });
+  });
+
+  it("accepts the retry of a delivery that failed to process", () => {
+    const body = payload();
+    const request = delivery(body, { "X-Op-Signature": sign(body), "X-Op-Delivery": crypto.randomUUID() });
+    expect(verifyWebhookDelivery(request)).toBeNull();
+    forgetWebhookDelivery(request);
+    expect(verifyWebhookDelivery(request)).toBeNull();
+  });
+
+  it("rejects replays of the same delivery ID or body", () => {
+    const body = payload();
+    const headers = { "X-Op-Signature": sign(body), "X-Op-Delivery": crypto.randomUUID() };
+    expect(verifyWebhookDelivery(delivery(body, headers))).toBeNull();
+    expect(verifyWebhookDelivery(delivery(body, headers))).toMatchObject({ status: 409, error: "duplicate_delivery" });
+
+    const unnamed = payload();
+    expect(verifyWebhookDelivery(delivery(unnamed, { "X-Op-Signature": sign(unnamed) }))).toBeNull();
+    expect(verifyWebhookDelivery(delivery(unnamed, { "X-Op-Signature": sign(unnamed) }))).toMatchObject({
+      status: 409,
+      error: "duplicate_delivery",
+    });
+  });
+
+  it("accepts unsigned deliveries when no secret is configured", () => {
+    delete process.env.OPENPROJECT_WEBHOOK_SECRET;
+    expect(verifyWebhookDelivery(delivery(payload()))).toBeNull();
+  });
+});